@@ -1,18 +1,21 @@
 import {SvelteComponent} from 'svelte';
-import {RawLocation} from '../types/location';
+import {NamedLocation, RegisteredRouteMap} from '../types/routemap';
+import {NavigationResult} from '../types/navigation';
 
 export type Events = {
-  completed: CustomEvent<void>;
-  aborted: CustomEvent<void>;
+  completed: CustomEvent<NavigationResult>;
+  aborted: CustomEvent<NavigationResult>;
 }
 
 export type Props = {
-  to: string | RawLocation;
+  to: string | NamedLocation<RegisteredRouteMap>;
   replace?: boolean;
   exact?: boolean;
   cls?: string;
   activeClass?: string;
   disabled?: boolean;
+  prefetch?: boolean | 'hover' | 'visible';
+  prefetchData?: boolean;
 };
 
 /**
@@ -0,0 +1,18 @@
+import {SvelteComponent} from 'svelte';
+import {Readable} from 'svelte/store';
+import Router from '../types/router';
+
+export type Props = {
+  router: Router | Readable<Router>;
+};
+
+export type Slots = {
+  default: {};
+};
+
+/**
+ *
+ */
+export default class RouterProvider extends SvelteComponent<Props, {}, Slots> {
+}
+export {};
@@ -1,8 +1,28 @@
 import {SvelteComponent} from 'svelte';
+import {TransitionConfig} from 'svelte/transition';
+import {Route} from '../types/route';
+import {NAVIGATION_DIRECTION} from '../types/navigation';
+
+export type TransitionContext = {
+  direction: NAVIGATION_DIRECTION;
+  from: Route;
+  to: Route;
+};
+
+export type Props = {
+  name?: string;
+  transition?: (node: Element, context: TransitionContext) => TransitionConfig;
+  viewTransition?: boolean;
+  keepAlive?: boolean | {
+    include?: string[];
+    exclude?: string[];
+    max?: number;
+  };
+};
 
 /**
  *
  */
-export default class View extends SvelteComponent<{}, {}, {}> {
+export default class View extends SvelteComponent<Props, {}, {}> {
 }
 export {};
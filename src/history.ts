@@ -4,7 +4,11 @@
  */
 
 // Reference: https://www.npmjs.com/package/history
-import {createBrowserHistory, createHashHistory} from 'history';
+import {
+  createBrowserHistory,
+  createHashHistory,
+  createMemoryHistory,
+} from 'history';
 
 /**
  * History modes.
@@ -14,6 +18,8 @@ enum HISTORY_MODE {
   HISTORY = 'HISTORY',
   /** Hash mode. */
   HASH = 'HASH',
+  /** In-memory mode, the browser URL is never touched. */
+  MEMORY = 'MEMORY',
 }
 
 /**
@@ -53,6 +59,8 @@ const history = (mode: HISTORY_MODE, opts: object): object => {
   switch (mode) {
     case HISTORY_MODE.HISTORY:
       return createBrowserHistory(opts);
+    case HISTORY_MODE.MEMORY:
+      return createMemoryHistory(opts);
     case HISTORY_MODE.HASH:
     default:
       return createHashHistory(opts);
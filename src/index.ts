@@ -3,14 +3,39 @@
  * @module svelte-router
  */
 
-import {Readable, readable} from 'svelte/store';
+import tc from '@spaceavocado/type-check';
+import {getContext, setContext} from 'svelte';
+import {Readable, readable, get} from 'svelte/store';
 
 // Internals
 import {HISTORY_MODE as ROUTER_MODE, HASH_TYPE} from './history';
 import Router, {RouterConfig} from './router';
+import {RouteMap, RouteMapOf, RegisteredRouteMap} from './routemap';
+import {NAVIGATION_RESULT, NAVIGATION_DIRECTION} from './navigation';
+import {
+  ROUTE_MATCHING,
+  TRAILING_SLASH,
+  META_MERGE,
+  RouteConfigPrefab,
+} from './route';
+import {PARAM_TYPE} from './params';
 import {urlMatch, urlPrefix, trimPrefix} from './utils';
+import {
+  onBeforeRouteLeave,
+  onBeforeRouteUpdate,
+  onActivated,
+  onDeactivated,
+  VIEW_RECORD_CONTEXT,
+  VIEW_DEPTH_CONTEXT,
+} from './lifecycle';
+import {RouteStores} from './stores';
 
 export {
+  /**
+   * Router class, e.g. for the routers provided by [[setRouter]]
+   * without replacing the global router.
+   */
+  Router,
   /**
    * Router supported mode enum.
    */
@@ -19,32 +44,154 @@ export {
    * Router supported hash types enum.
    */
   HASH_TYPE,
+  /**
+   * Navigation result types enum.
+   */
+  NAVIGATION_RESULT,
+  /**
+   * Navigation directions enum.
+   */
+  NAVIGATION_DIRECTION,
+  /**
+   * Route matching modes enum.
+   */
+  ROUTE_MATCHING,
+  /**
+   * Canonical trailing slash enum.
+   */
+  TRAILING_SLASH,
+  /**
+   * Route meta merge strategies enum.
+   */
+  META_MERGE,
+  /**
+   * Route param types enum.
+   */
+  PARAM_TYPE,
   urlMatch,
   urlPrefix,
   trimPrefix,
+  onBeforeRouteLeave,
+  onBeforeRouteUpdate,
+  onActivated,
+  onDeactivated,
 };
 
-export type {RouterConfig} from './router';
-export type {Route, RouteConfigPrefab} from './route';
+export type {RouterConfig, PrefetchOptions} from './router';
+export type {
+  Route,
+  RouteConfigPrefab,
+  RouteResolution,
+  RouteMeta,
+  metaMergeFunction,
+  LazyComponent,
+} from './route';
 export type {RawLocation} from './location';
+export type {QueryParams} from './utils';
+export type {NavigationResult} from './navigation';
+export type {ParamParser} from './params';
+export type {ScrollPosition, ScrollTarget} from './scroll';
+export type {RouteStores} from './stores';
+export type {
+  RouteMap,
+  RouteMapOf,
+  RouteLocation,
+  NamedLocation,
+  TypedRoute,
+  PathParams,
+  RouterRegister,
+} from './routemap';
 
 /**
  * Router store.
- * Svelte readable store of type [[Router]].
+ * Svelte readable store of type [[Router]], typed by the route map
+ * of the [[RouterRegister]].
  */
-export let router: Readable<Router>;
+export let router: Readable<Router<RegisteredRouteMap>>;
+
+/**
+ * Type the router store by the route map, the route map
+ * is known only to the type checker.
+ * @param {Readable<Router>} store Router store.
+ * @return {Readable<Router>}
+ */
+function typedRouter<M extends RouteMap>(
+    store: Readable<object>): Readable<Router<M>> {
+  return store as Readable<Router<M>>;
+}
 
 /**
  * Create a router in read-only store.
  * Default module export.
+ * The route map is inferred from the routes, see [[RouteMapOf]].
  * @param {RouterConfig} opts Router constructor options.
  * @return {object} Svelte readable store of type [[Router]].
  */
-const createRouter = (opts: RouterConfig): object => {
-  router = readable(new Router(opts));
-  return router;
+const createRouter = <
+  const Routes extends readonly RouteConfigPrefab<object>[],
+  M extends RouteMap = RouteMapOf<Routes>
+>(opts: RouterConfig & {routes: Routes}): Readable<Router<M>> => {
+  const store = readable(new Router<M>(opts));
+  router = typedRouter(store);
+  return store;
 };
 
+/**
+ * Router component context key of the router store.
+ */
+const ROUTER_CONTEXT = 'ROUTER';
+
+/**
+ * Provide the router to the component and its descendants,
+ * the router views and links resolve the nearest provided router.
+ * The nested router views are resolved from the root level
+ * of the provided router, and the route stores of the provided
+ * router are returned by getRouteStores. Must be called during
+ * the component initialization.
+ * @param {Router|Readable<Router>} instance Router or the router store.
+ * @return {Readable<Router>} Provided router store.
+ */
+export function setRouter<M extends RouteMap = RegisteredRouteMap>(
+    instance: Router<M> | Readable<Router<M>>): Readable<Router<M>> {
+  const store = tc.isFunction((instance as Readable<Router<M>>).subscribe)
+    ? instance as Readable<Router<M>>
+    : readable(instance as Router<M>);
+  setContext(ROUTER_CONTEXT, store);
+  setContext(VIEW_DEPTH_CONTEXT, 0);
+  setContext(VIEW_RECORD_CONTEXT, null);
+  return store;
+}
+
+/**
+ * Get the nearest router provided by setRouter, or the router
+ * created by createRouter. Must be called during the component
+ * initialization.
+ * @throws when no router has been provided or created.
+ * @return {Readable<Router>} Router store.
+ */
+export function getRouter<M extends RouteMap = RegisteredRouteMap>():
+  Readable<Router<M>> {
+  const store = getContext<Readable<Router<M>> | undefined>(ROUTER_CONTEXT);
+  if (store != null) {
+    return store;
+  }
+  if (router == null) {
+    throw new Error('missing router, see createRouter or setRouter');
+  }
+  return typedRouter(router);
+}
+
+/**
+ * Get the route and navigation state stores of the nearest router,
+ * see [[getRouter]]. Must be called during the component initialization.
+ * @throws when no router has been provided or created.
+ * @return {RouteStores} Route stores, see the router stores.
+ */
+export function getRouteStores<M extends RouteMap = RegisteredRouteMap>():
+  RouteStores<M> {
+  return get(getRouter<M>()).stores;
+}
+
 /**
  * Create a router in read-only store.
  */
@@ -0,0 +1,103 @@
+/**
+ * Svelte Router component lifecycle module.
+ * @module svelte-router/lifecycle
+ */
+
+import tc from '@spaceavocado/type-check';
+import {getContext, onDestroy} from 'svelte';
+import Router from './router';
+import {navigationGuardFunction} from './navigation';
+
+/**
+ * Router view context key of the rendered route record.
+ */
+export const VIEW_RECORD_CONTEXT = 'VIEW_RECORD';
+
+/**
+ * Router view context key of the nested view depth.
+ */
+export const VIEW_DEPTH_CONTEXT = 'VIEW_DEPTH';
+
+/**
+ * Router view context of the rendered route record,
+ * set by the router view component.
+ */
+export interface ViewRecordContext {
+  /** Router instance. */
+  router: Router;
+  /** Get the ID of the route record rendered by the router view. */
+  id: () => symbol | null;
+  /**
+   * Register the activation listener of the kept alive component
+   * rendered for the route record.
+   * @return {function} Unregister function.
+   */
+  onActivation: (id: symbol, activated: boolean, callback: () => void) =>
+    () => void;
+}
+
+/**
+ * Get the router view context of the rendered route record.
+ * @param {string} name Name of the lifecycle function.
+ * @throws when called outside of a component rendered by the router view.
+ * @return {ViewRecordContext}
+ */
+function viewRecordContext(name: string): ViewRecordContext {
+  const context = getContext(VIEW_RECORD_CONTEXT) as ViewRecordContext;
+  if (tc.isNullOrUndefined(context) || context.id() == null) {
+    throw new Error(
+        `${name} must be called in a component rendered by the router view`
+    );
+  }
+  return context;
+}
+
+/**
+ * Register a navigation guard which will be called whenever
+ * the route rendering the component is being left.
+ * The guard is unregistered when the component is destroyed.
+ * @param {function} guard Guard callback function.
+ * @throws when called outside of a component rendered by the router view.
+ */
+export function onBeforeRouteLeave(guard: navigationGuardFunction): void {
+  const context = viewRecordContext('onBeforeRouteLeave');
+  onDestroy(context.router.routeLeaveGuard(context.id() as symbol, guard));
+}
+
+/**
+ * Register a navigation guard which will be called whenever
+ * the route rendering the component is being reused with changed params.
+ * The guard is unregistered when the component is destroyed.
+ * @param {function} guard Guard callback function.
+ * @throws when called outside of a component rendered by the router view.
+ */
+export function onBeforeRouteUpdate(guard: navigationGuardFunction): void {
+  const context = viewRecordContext('onBeforeRouteUpdate');
+  onDestroy(context.router.routeUpdateGuard(context.id() as symbol, guard));
+}
+
+/**
+ * Register a callback which will be called whenever the kept alive
+ * component is activated, i.e. rendered by the router view,
+ * including the initial render. See the keepAlive option.
+ * The callback is unregistered when the component is destroyed.
+ * @param {function} callback Callback function.
+ * @throws when called outside of a component rendered by the router view.
+ */
+export function onActivated(callback: () => void): void {
+  const context = viewRecordContext('onActivated');
+  onDestroy(context.onActivation(context.id() as symbol, true, callback));
+}
+
+/**
+ * Register a callback which will be called whenever the kept alive
+ * component is deactivated, i.e. hidden by the router view.
+ * See the keepAlive option.
+ * The callback is unregistered when the component is destroyed.
+ * @param {function} callback Callback function.
+ * @throws when called outside of a component rendered by the router view.
+ */
+export function onDeactivated(callback: () => void): void {
+  const context = viewRecordContext('onDeactivated');
+  onDestroy(context.onActivation(context.id() as symbol, false, callback));
+}
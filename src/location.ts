@@ -5,7 +5,13 @@
 
 import tc from '@spaceavocado/type-check';
 import {HISTORY_ACTION} from './history';
-import {hasPrefix, parseURL} from './utils';
+import {
+  QueryParams,
+  queryParser,
+  hasPrefix,
+  parseURL,
+  parseQuery,
+} from './utils';
 
 /**
  * Name property has higher priority that path property.
@@ -19,18 +25,18 @@ interface LocationBase {
   hash: string;
 }
 
-export interface RawLocation extends LocationBase {
+export interface RawLocation extends Partial<LocationBase> {
   /** Query parameters. */
-  query?: {[k: string]: string} | null;
+  query?: QueryParams | null;
   /** Route parameters */
   params?: {[k: string]: string} | null;
   /** Replace in the history. */
-  replace: boolean;
+  replace?: boolean;
 }
 
 export interface Location extends LocationBase {
   /** Query parameters. */
-  query: {[k: string]: string};
+  query: QueryParams;
   /** Route parameters. */
   params: {[k: string]: string};
   /** Location history action. */
@@ -40,9 +46,12 @@ export interface Location extends LocationBase {
 /**
  * Create location object.
  * @param {RawLocation} rawLocation raw location object.
+ * @param {function} parse query string parser.
  * @return {Location}
  */
-export function createLocation(rawLocation: RawLocation): Location {
+export function createLocation(
+    rawLocation: RawLocation,
+    parse: queryParser = parseQuery): Location {
   const location: Location = {
     path: '',
     hash: '',
@@ -67,7 +76,7 @@ export function createLocation(rawLocation: RawLocation): Location {
   }
   if (tc.not.isNullOrUndefined(rawLocation.hash)
     && tc.isString(rawLocation.hash)) {
-    location.hash = rawLocation.hash.replace('#', '');
+    location.hash = (rawLocation.hash as string).replace('#', '');
   }
 
   // Param object
@@ -96,7 +105,7 @@ export function createLocation(rawLocation: RawLocation): Location {
 
   // Query in URL
   try {
-    const parsedURL = parseURL(location.path);
+    const parsedURL = parseURL(location.path, parse);
     location.path = parsedURL.base;
     location.query = {...location.query, ...parsedURL.query};
     if (parsedURL.hash.length > 0) {
@@ -0,0 +1,101 @@
+/**
+ * Svelte Router navigation module.
+ * @module svelte-router/navigation
+ */
+
+import {Route} from './route';
+
+/**
+ * Possible actions:
+ * * fn() or fn(true) = Continue.
+ * * fn(false) = Abort the navigation.
+ * * fn(Error) = Abort the navigation and trigger navigation error.
+ * * fn(url) or fn(RawLocation) = Break the navigation
+ * and resolve the new navigation.
+ */
+export type navigationGuardNextAction =
+  undefined | boolean | Error | string | object;
+
+/**
+ * Navigation guard could call the next function or return the
+ * action (or a Promise resolved with the action) instead.
+ */
+export type navigationGuardResult =
+  void | navigationGuardNextAction | Promise<navigationGuardNextAction>;
+export type navigationGuardFunction = (from: Route | null, to: Route | null,
+  next: (action?: navigationGuardNextAction) => void) => navigationGuardResult;
+
+/**
+ * Navigation result types.
+ */
+enum NAVIGATION_RESULT {
+  /** The navigation has been confirmed. */
+  SUCCESS = 'SUCCESS',
+  /** The navigation has been aborted by a navigation guard. */
+  ABORTED = 'ABORTED',
+  /** The navigation has been redirected and confirmed. */
+  REDIRECTED = 'REDIRECTED',
+  /** The navigation targets the current route. */
+  DUPLICATED = 'DUPLICATED',
+  /** The navigation has been superseded by a newer navigation. */
+  CANCELLED = 'CANCELLED',
+  /** The navigation has failed on error. */
+  FAILED = 'FAILED',
+};
+
+/**
+ * Navigation directions, resolved by the history entry index.
+ */
+enum NAVIGATION_DIRECTION {
+  /** The initial navigation of the started router. */
+  INITIAL = 'INITIAL',
+  /** A new history entry, or the history forward. */
+  FORWARD = 'FORWARD',
+  /** The history back. */
+  BACK = 'BACK',
+  /** The current history entry is replaced. */
+  REPLACE = 'REPLACE',
+};
+
+/**
+ * Navigation result object.
+ */
+export interface NavigationResult {
+  /** Result type. */
+  type: NAVIGATION_RESULT;
+  /**
+   * Resolved route, the final route in the case of
+   * the redirected navigation, null if it could not be resolved.
+   */
+  route: Route | null;
+  /** Navigation error, set only for the failed navigation. */
+  error: Error | null;
+}
+
+/**
+ * Navigation settled callback.
+ */
+export type navigationCallback = (result: NavigationResult) => void;
+
+/**
+ * Create navigation result object.
+ * @param {NAVIGATION_RESULT} type result type.
+ * @param {Route|null} route resolved route.
+ * @param {Error|null} error navigation error.
+ * @return {NavigationResult}
+ */
+export function createNavigationResult(
+    type: NAVIGATION_RESULT,
+    route: Route | null = null,
+    error: Error | null = null): NavigationResult {
+  return {
+    type,
+    route,
+    error,
+  };
+}
+
+export {
+  NAVIGATION_RESULT,
+  NAVIGATION_DIRECTION,
+};
@@ -0,0 +1,156 @@
+/**
+ * Svelte Router route params module.
+ * @module svelte-router/params
+ */
+
+import tc from '@spaceavocado/type-check';
+
+/**
+ * Built-in route param types.
+ */
+enum PARAM_TYPE {
+  /** Raw string value. */
+  STRING = 'STRING',
+  /** Integer number, e.g. -5, 10. */
+  INT = 'INT',
+  /** Float number, e.g. -5, 10.25. */
+  FLOAT = 'FLOAT',
+  /** Boolean, true or false. */
+  BOOLEAN = 'BOOLEAN',
+  /** UUID, e.g. 123e4567-e89b-12d3-a456-426614174000. */
+  UUID = 'UUID',
+  /** ISO 8601 date, e.g. 2020-01-31 or 2020-01-31T10:00:00.000Z. */
+  DATE = 'DATE',
+};
+
+/**
+ * Route param parser.
+ * * parse: convert the URL value into the param value,
+ * throws if the URL value is not valid.
+ * * serialize: convert the param value into the URL value,
+ * throws if the param value is not valid.
+ */
+export interface ParamParser {
+  parse: (value: string) => unknown;
+  serialize: (value: unknown) => string;
+}
+
+/**
+ * Route param type.
+ * * PARAM_TYPE: built-in param type.
+ * * string[]: enum of allowed values.
+ * * object: custom param parser.
+ */
+export type paramType = PARAM_TYPE | readonly string[] | ParamParser;
+
+/**
+ * Create param parser from the regex validated value.
+ * @param {RegExp} pattern Value pattern.
+ * @param {function} parse Parse function of the valid value.
+ * @return {ParamParser}
+ */
+function patternParser(
+    pattern: RegExp,
+    parse: (value: string) => unknown): ParamParser {
+  const validate = (value: string): string => {
+    if (pattern.test(value) == false) {
+      throw new Error(`invalid param value "${value}"`);
+    }
+    return value;
+  };
+  return {
+    parse: (value: string): unknown => parse(validate(value)),
+    serialize: (value: unknown): string => validate(String(value)),
+  };
+}
+
+/**
+ * ISO 8601 date pattern.
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Date param parser.
+ */
+const dateParser: ParamParser = {
+  parse: (value: string): Date => {
+    const date = new Date(value);
+    if (DATE_PATTERN.test(value) == false || isNaN(date.getTime())) {
+      throw new Error(`invalid param value "${value}"`);
+    }
+    return date;
+  },
+  serialize: (value: unknown): string => {
+    if (value instanceof Date == false) {
+      return dateParser.serialize(dateParser.parse(String(value)));
+    }
+    const date = value as Date;
+    if (isNaN(date.getTime())) {
+      throw new Error('invalid param value, invalid date');
+    }
+    const iso = date.toISOString();
+    return iso.slice(10) == 'T00:00:00.000Z' ? iso.slice(0, 10) : iso;
+  },
+};
+
+/**
+ * Built-in param parsers.
+ */
+const parsers: {[k: string]: ParamParser} = {
+  [PARAM_TYPE.STRING]: {
+    parse: (value: string): string => value,
+    serialize: (value: unknown): string => String(value),
+  },
+  [PARAM_TYPE.INT]: patternParser(/^-?\d+$/, (value) => parseInt(value, 10)),
+  [PARAM_TYPE.FLOAT]: patternParser(/^-?(\d+|\d*\.\d+)$/, parseFloat),
+  [PARAM_TYPE.BOOLEAN]: patternParser(/^(true|false)$/,
+      (value) => value == 'true'),
+  [PARAM_TYPE.UUID]: patternParser(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+      (value) => value),
+  [PARAM_TYPE.DATE]: dateParser,
+};
+
+/**
+ * Create route param parser from the param type.
+ * @param {paramType} type Param type.
+ * @throws when the param type is not valid.
+ * @return {ParamParser}
+ */
+export function createParamParser(type: paramType): ParamParser {
+  // Built-in
+  if (tc.isString(type)) {
+    if (tc.not.isEnumKey(type, PARAM_TYPE)) {
+      throw new Error(`invalid param type "${type}"`);
+    }
+    return parsers[type as string];
+  }
+
+  // Enum
+  if (tc.isArray(type)) {
+    const values = (type as unknown[]).map((v) => String(v));
+    const validate = (value: string): string => {
+      if (values.includes(value) == false) {
+        throw new Error(`invalid param value "${value}"`);
+      }
+      return value;
+    };
+    return {
+      parse: validate,
+      serialize: (value: unknown): string => validate(String(value)),
+    };
+  }
+
+  // Custom
+  if (tc.isObject(type)
+    && tc.isFunction((type as ParamParser).parse)
+    && tc.isFunction((type as ParamParser).serialize)) {
+    return type as ParamParser;
+  }
+
+  throw new Error('invalid param type');
+}
+
+export {
+  PARAM_TYPE,
+};
@@ -5,14 +5,68 @@
 
 import tc from '@spaceavocado/type-check';
 import {
+  QueryParams,
+  queryStringifier,
   fullURL,
+  stringifyQuery,
   deepClone,
   isWholeNumber,
   isFloatNumber,
 } from './utils';
 import {HISTORY_ACTION} from './history';
 import {Location} from './location';
-import {Key} from 'path-to-regexp';
+import {navigationGuardFunction, NAVIGATION_DIRECTION} from './navigation';
+import {ParamParser, paramType, createParamParser} from './params';
+import {RouteMap, TypedRoute, RegisteredRouteMeta} from './routemap';
+import pathToRegexp, {Key} from 'path-to-regexp';
+
+/**
+ * Route matching modes.
+ */
+enum ROUTE_MATCHING {
+  /** The most specific route wins, regardless of the declaration order. */
+  RANKED = 'RANKED',
+  /** The first matching route wins, in the declaration order. */
+  ORDERED = 'ORDERED',
+};
+
+/**
+ * Canonical trailing slash of the URL path.
+ */
+enum TRAILING_SLASH {
+  /** The URL path is kept as it is. */
+  KEEP = 'KEEP',
+  /** The trailing slash is appended to the URL path. */
+  ADD = 'ADD',
+  /** The trailing slash is removed from the URL path. */
+  REMOVE = 'REMOVE',
+};
+
+/**
+ * Route meta merge strategies, merging the meta of the matched
+ * route records from the parent to the child.
+ */
+enum META_MERGE {
+  /** The child meta properties override the parent meta properties. */
+  SHALLOW = 'SHALLOW',
+  /**
+   * The nested plain objects are merged recursively,
+   * any other child meta value overrides the parent value.
+   */
+  DEEP = 'DEEP',
+};
+
+/**
+ * Route meta object, a bucket for any custom data of the route.
+ */
+export type RouteMeta = {[k: string]: unknown};
+
+/**
+ * Custom route meta merge function, merging the child route meta
+ * into the meta merged from the parent routes, fn(parent, child) => meta.
+ */
+export type metaMergeFunction = (parent: RouteMeta, child: RouteMeta) =>
+  RouteMeta;
 
 /**
  * Route redirect.
@@ -32,47 +86,249 @@ export type routeRedirect = null | string | object | ((to: Route) => string);
  */
 type routeProps = boolean | object | ((route: Route) => {[k: string]: string});
 export type componentModule = {default: object};
+
+/**
+ * Route data loader, resolved before the route component is rendered.
+ * The loaded data is passed to the component as data prop.
+ */
+export type routeLoader = (route: Route) => unknown;
+
+/**
+ * Lazy loaded component loader, a function resolving
+ * the component module, e.g. () => import('./view.svelte').
+ */
+export type componentLoader = () => Promise<componentModule>;
+
+/**
+ * Lazy loaded component declared by the loader function,
+ * e.g. {loader: () => import('./view.svelte')}.
+ */
+export interface LazyComponent {
+  /** Component loader, called on each loading attempt. */
+  loader: componentLoader;
+}
+
 export type componentType =
   | boolean
   | (() => object)
   | object
   | Promise<componentModule>
+  | LazyComponent
+
+/**
+ * Name of the router view outlet rendering the route component.
+ */
+export const DEFAULT_OUTLET = 'default';
+
+/**
+ * Lazy loaded component options.
+ */
+export interface LazyOptions {
+  /** Component rendered while the component is being loaded. */
+  loadingComponent?: object;
+  /** Component rendered when the component has failed to load. */
+  errorComponent?: object;
+  /** Delay before the loading component is rendered, in milliseconds. */
+  loadingDelay: number;
+  /** Component loading timeout in milliseconds, 0 means no timeout. */
+  loadingTimeout: number;
+  /** Retry count of the failed component loading. */
+  retry: number;
+  /** Retry delay in milliseconds, doubled for each retry. */
+  retryDelay: number;
+}
+
+/**
+ * Lazy loaded component declared by the loader function predicate,
+ * see [[LazyComponent]].
+ * @param {componentType} component Route component.
+ * @return {boolean}
+ */
+export function isLazyComponent(component: unknown): boolean {
+  return tc.isObject(component)
+    && tc.isFunction((component as {loader?: unknown}).loader);
+}
+
+/**
+ * Lazy loaded component predicate.
+ * @param {componentType} component Route component.
+ * @return {boolean}
+ */
+function isAsyncComponent(component: unknown): boolean {
+  return tc.isPromise(component) || isLazyComponent(component);
+}
+
+/**
+ * Route component predicate, i.e. the component constructor function,
+ * the component module promise or the lazy loaded component.
+ * @param {componentType} component Route component.
+ * @return {boolean}
+ */
+function isRouteComponent(component: unknown): boolean {
+  return tc.isFunction(component) || isAsyncComponent(component);
+}
+
+/**
+ * Get the outlets of the route record, which components
+ * are lazy loaded and not loaded yet.
+ * @param {Record} record Route record.
+ * @return {string[]}
+ */
+export function asyncOutlets(record: Record): string[] {
+  const components = record.components || {};
+  return Object.keys(components)
+      .filter((outlet) => isAsyncComponent(components[outlet]));
+}
 
 /**
  * Route config prefab used to generate Route RouteConfig.
+ * @template Meta Route meta type, defaults to the meta type
+ * of the [[RouterRegister]].
  */
-export interface RouteConfigPrefab {
+export interface RouteConfigPrefab<Meta extends object = RegisteredRouteMeta> {
   /** Name of the route. */
   name?: string;
   /** URL path use to resolve the route. */
   path: string;
+  /**
+   * Alternative URL path(s) resolving the route without redirecting,
+   * the nested routes are resolved under the alias path as well.
+   */
+  alias?: string | readonly string[];
+  /**
+   * The trailing slash of the path is significant, overrides
+   * the router strict option for the route and its nested routes.
+   */
+  strict?: boolean;
+  /**
+   * Case-sensitive path matching, overrides the router sensitive
+   * option for the route and its nested routes.
+   */
+  sensitive?: boolean;
   redirect?: routeRedirect;
   /**
    * Svelte component.
-   * Component constructor function or async component resolver
+   * Component constructor function, component module promise
+   * or lazy loaded component, see [[LazyComponent]].
    */
   component?: componentType;
+  /**
+   * Svelte components keyed by the router view outlet name,
+   * the component property is the default outlet component.
+   */
+  components?: {[outlet: string]: componentType};
   /** Route meta object. */
-  meta?: {[k: string]: string};
-  props?: routeProps;
+  meta?: Meta;
+  /**
+   * Component props, keyed by the outlet name
+   * when the components property is used.
+   */
+  props?: routeProps | {[outlet: string]: routeProps};
+  /**
+   * Route data loader, the loaders of all matched routes are resolved
+   * in parallel after the navigation guards.
+   */
+  load?: routeLoader;
+  /**
+   * Component rendered by the router view while the lazy loaded
+   * component is being loaded, the navigation does not wait
+   * for the component if the loading or error component is set.
+   */
+  loadingComponent?: object;
+  /**
+   * Component rendered by the router view when the lazy loaded
+   * component has failed to load.
+   */
+  errorComponent?: object;
+  /**
+   * Delay before the loading component is rendered,
+   * in milliseconds. Defaults to 200.
+   */
+  loadingDelay?: number;
+  /**
+   * Lazy loaded component loading timeout in milliseconds,
+   * defaults to 0, i.e. no timeout.
+   */
+  loadingTimeout?: number;
+  /** Retry count of the failed lazy loaded component, defaults to 0. */
+  retry?: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled
+   * for each next retry. Defaults to 500.
+   */
+  retryDelay?: number;
+  /**
+   * Route param types, the params are parsed and validated during
+   * the route matching, and serialized when the URL is generated.
+   */
+  paramTypes?: {[k: string]: paramType};
+  /**
+   * Navigation guard(s) resolved when the route is being entered,
+   * after the global navigation guards.
+   */
+  beforeEnter?: navigationGuardFunction | readonly navigationGuardFunction[];
+  /**
+   * Navigation guard(s) resolved when the route is being left,
+   * before the global navigation guards.
+   */
+  beforeLeave?: navigationGuardFunction | readonly navigationGuardFunction[];
+  /**
+   * Navigation guard(s) resolved when the route is being reused
+   * with changed params, after the global navigation guards.
+   */
+  beforeUpdate?: navigationGuardFunction | readonly navigationGuardFunction[];
+  /**
+   * Keep the component instance mounted but hidden when the route
+   * is left, true caches the component in any router view,
+   * false excludes it from the router view keepAlive option.
+   */
+  keepAlive?: boolean;
   /** Children routes. */
-  children?: RouteConfigPrefab[];
+  children?: readonly RouteConfigPrefab<Meta>[];
+}
+
+/**
+ * Route alias matcher, compiled from the full alias path.
+ */
+export interface RouteAlias {
+  /** Full alias path, including the parent route path. */
+  path: string;
+  /** Collection of param keys generated by the pathToRegexp. */
+  paramKeys: Partial<Key>[];
+  /** Regex URL matcher */
+  matcher: RegExp;
+  /** Route path specificity score, see routeScore. */
+  score: number[];
 }
 
 /**
  * Route Config
  */
-export interface RouteConfig extends RouteConfigPrefab {
+export interface RouteConfig extends RouteConfigPrefab<RouteMeta> {
   /** Route unique ID. */
   id: symbol;
+  /** Declared alias paths. */
+  alias: string[];
+  /** Alias matchers of the route, see alias. */
+  aliases: RouteAlias[];
+  /** Svelte components keyed by the outlet name. */
+  components: {[outlet: string]: componentType};
+  /** Component props keyed by the outlet name. */
+  outletProps: {[outlet: string]: routeProps};
   /** Lazy loaded component flag. */
   async: boolean;
+  /** Lazy loaded component options. */
+  lazy: LazyOptions;
   /** Parent route. */
   parent: RouteConfig | null;
   /** Collection of param keys generated by the pathToRegexp. */
   paramKeys: Partial<Key>[];
+  /** Param parsers of the declared param types. */
+  paramParsers: {[k: string]: ParamParser};
   /** Regex URL matcher */
   matcher: RegExp;
+  /** Route path specificity score, see routeScore. */
+  score: number[];
   /**
    * URL generator function.
    * @param params router param dictionary.
@@ -81,7 +337,37 @@ export interface RouteConfig extends RouteConfigPrefab {
   /** Children routes. */
   children: RouteConfig[];
   /** Route meta object. */
-  meta: {[k: string]: string};
+  meta: RouteMeta;
+  /** Before enter navigation guards. */
+  beforeEnter: navigationGuardFunction[];
+  /** Before leave navigation guards. */
+  beforeLeave: navigationGuardFunction[];
+  /** Before update navigation guards. */
+  beforeUpdate: navigationGuardFunction[];
+}
+
+/**
+ * Create collection of navigation guards from the route config
+ * guard property.
+ * @param {function|function[]|undefined} guards Guard property value.
+ * @param {string} property Name of the guard property.
+ * @throws Will throw an error if any of the guards is not a function.
+ * @return {function[]}
+ */
+function createGuardList(
+    guards: undefined | navigationGuardFunction
+      | readonly navigationGuardFunction[],
+    property: string): navigationGuardFunction[] {
+  const list = tc.isNullOrUndefined(guards)
+    ? []
+    : ([] as navigationGuardFunction[]).concat(
+        guards as navigationGuardFunction[]);
+  for (const guard of list) {
+    if (tc.not.isFunction(guard)) {
+      throw new Error(`invalid route config ${property} property`);
+    }
+  }
+  return list;
 }
 
 /**
@@ -91,7 +377,8 @@ export interface RouteConfig extends RouteConfigPrefab {
  * @throws Will throw an error if the route prefab config is invalid.
  * @return {module:svelte-router/route~RouteConfig}
  */
-export function createRouteConfig(prefab: RouteConfigPrefab): RouteConfig {
+export function createRouteConfig(
+    prefab: RouteConfigPrefab<object>): RouteConfig {
   if (tc.isNullOrUndefined(prefab) || tc.not.isObject(prefab)) {
     throw new Error('invalid route config prefab');
   }
@@ -99,15 +386,84 @@ export function createRouteConfig(prefab: RouteConfigPrefab): RouteConfig {
     throw new Error('invalid route config path property');
   }
   if (tc.not.isNullOrUndefined(prefab.component)
-    && tc.not.isFunction(prefab.component)
-    && tc.not.isPromise(prefab.component)
+    && isRouteComponent(prefab.component) == false
   ) {
     throw new Error('invalid route config component property');
   }
+  const components: {[outlet: string]: componentType} = {};
+  if (tc.not.isNullOrUndefined(prefab.components)) {
+    if (tc.not.isObject(prefab.components)) {
+      throw new Error('invalid route config components property');
+    }
+    const declared = prefab.components as {[outlet: string]: componentType};
+    for (const outlet in declared) {
+      if (declared.hasOwnProperty(outlet)) {
+        if (isRouteComponent(declared[outlet]) == false) {
+          throw new Error(
+              `invalid route config components property, ${outlet}`);
+        }
+        components[outlet] = declared[outlet];
+      }
+    }
+  }
+  if (tc.not.isNullOrUndefined(prefab.component)) {
+    if (components.hasOwnProperty(DEFAULT_OUTLET)) {
+      throw new Error(
+          `invalid route config components property, ${DEFAULT_OUTLET}`);
+    }
+    components[DEFAULT_OUTLET] = prefab.component as componentType;
+  }
+  for (const property of ['loadingComponent', 'errorComponent']) {
+    const value = prefab[property as keyof RouteConfigPrefab];
+    if (tc.not.isNullOrUndefined(value) && tc.not.isFunction(value)) {
+      throw new Error(`invalid route config ${property} property`);
+    }
+  }
+  const lazy: LazyOptions = {
+    loadingComponent: prefab.loadingComponent,
+    errorComponent: prefab.errorComponent,
+    loadingDelay: 200,
+    loadingTimeout: 0,
+    retry: 0,
+    retryDelay: 500,
+  };
+  for (const property of
+    ['loadingDelay', 'loadingTimeout', 'retry', 'retryDelay']) {
+    const value = prefab[property as keyof RouteConfigPrefab];
+    if (tc.isNullOrUndefined(value)) {
+      continue;
+    }
+    if (tc.not.isNumber(value) || (value as number) < 0) {
+      throw new Error(`invalid route config ${property} property`);
+    }
+    (lazy as unknown as {[k: string]: number})[property] = value as number;
+  }
+  // The rejected promise could not be loaded again, see LazyComponent
+  for (const outlet in components) {
+    if (lazy.retry > 0 && tc.isPromise(components[outlet])) {
+      throw new Error(`invalid route config retry property, ${outlet}`);
+    }
+  }
   if (prefab.meta && tc.not.isObject(prefab.meta)) {
     throw new Error('invalid route config meta property');
   }
 
+  for (const property of ['strict', 'sensitive', 'keepAlive']) {
+    const value = prefab[property as keyof RouteConfigPrefab];
+    if (tc.not.isNullOrUndefined(value) && value !== true && value !== false) {
+      throw new Error(`invalid route config ${property} property`);
+    }
+  }
+
+  const alias = tc.isNullOrUndefined(prefab.alias)
+    ? []
+    : ([] as string[]).concat(prefab.alias as string[]);
+  for (const path of alias) {
+    if (tc.not.isString(path)) {
+      throw new Error('invalid route config alias property');
+    }
+  }
+
   if (tc.isNullOrUndefined(prefab.redirect)) {
     prefab.redirect = null;
   } else if (tc.not.isString(prefab.redirect)
@@ -124,24 +480,215 @@ export function createRouteConfig(prefab: RouteConfigPrefab): RouteConfig {
     throw new Error('invalid route config props property');
   }
 
+  // The props object is keyed by the outlet name for the named views
+  const outletProps: {[outlet: string]: routeProps} = {};
+  const namedProps = tc.not.isNullOrUndefined(prefab.components)
+    && tc.isObject(prefab.props);
+  for (const outlet of Object.keys(components)) {
+    if (namedProps == false) {
+      outletProps[outlet] = prefab.props as routeProps;
+      continue;
+    }
+    const props = (prefab.props as {[outlet: string]: routeProps})[outlet];
+    if (tc.isNullOrUndefined(props)) {
+      outletProps[outlet] = false;
+    } else if (props === true
+      || props === false
+      || tc.isObject(props)
+      || tc.isFunction(props)) {
+      outletProps[outlet] = props;
+    } else {
+      throw new Error(`invalid route config props property, ${outlet}`);
+    }
+  }
+
+  if (tc.not.isNullOrUndefined(prefab.load)
+    && tc.not.isFunction(prefab.load)) {
+    throw new Error('invalid route config load property');
+  }
+
+  const paramParsers: {[k: string]: ParamParser} = {};
+  if (tc.not.isNullOrUndefined(prefab.paramTypes)) {
+    if (tc.not.isObject(prefab.paramTypes)) {
+      throw new Error('invalid route config paramTypes property');
+    }
+    const types = prefab.paramTypes as {[k: string]: paramType};
+    for (const key in types) {
+      if (types.hasOwnProperty(key)) {
+        try {
+          paramParsers[key] = createParamParser(types[key]);
+        } catch (e: any) {
+          throw new Error(`invalid route config paramTypes property, ${key}`);
+        }
+      }
+    }
+  }
+
+  const beforeEnter = createGuardList(prefab.beforeEnter, 'beforeEnter');
+  const beforeLeave = createGuardList(prefab.beforeLeave, 'beforeLeave');
+  const beforeUpdate = createGuardList(prefab.beforeUpdate, 'beforeUpdate');
+
   return {
     id: Symbol('Route ID'),
     path: prefab.path,
+    alias,
+    aliases: [],
+    strict: prefab.strict,
+    sensitive: prefab.sensitive,
+    keepAlive: prefab.keepAlive,
     redirect: prefab.redirect,
-    component: prefab.component || false,
-    async: tc.not.isNullOrUndefined(prefab.component)
-      && tc.isPromise(prefab.component),
+    component: components[DEFAULT_OUTLET] || false,
+    components,
+    async: Object.keys(components)
+        .some((outlet) => isAsyncComponent(components[outlet])),
+    lazy,
     name: prefab.name,
-    meta: prefab.meta || {},
+    meta: (prefab.meta || {}) as RouteMeta,
     props: prefab.props,
+    outletProps,
+    load: prefab.load,
+    beforeEnter,
+    beforeLeave,
+    beforeUpdate,
     children: [],
     parent: null,
     paramKeys: [],
+    paramParsers,
     matcher: /^\s$/,
+    score: [],
     generator: (): string => '',
   };
 }
 
+/**
+ * Path segment scores, the higher score the more specific segment.
+ */
+const SEGMENT_SCORE = {
+  STATIC: 4,
+  PATTERN_PARAM: 3,
+  PARAM: 2,
+  OPTIONAL_PARAM: 1,
+  WILDCARD: 0,
+  /** Bonus of the param segment with static text, e.g. /file-:id */
+  STATIC_BONUS: 0.5,
+  /** Any URL route. */
+  ANY: -1,
+};
+
+/**
+ * Get the route path specificity score, a score for each path segment:
+ * static segments score above params, params above optional params,
+ * and optional params above wildcards.
+ * @param {string} path Route path.
+ * @return {number[]}
+ */
+export function routeScore(path: string): number[] {
+  if (path == '*') {
+    return [SEGMENT_SCORE.ANY];
+  }
+
+  // Split the path tokens into the path segments
+  const segments: (string | Key)[][] = [];
+  for (const token of pathToRegexp.parse(path)) {
+    if (tc.isString(token)) {
+      (token as string).split('/').forEach((part, i) => {
+        if (i > 0 || segments.length == 0) {
+          segments.push([]);
+        }
+        if (part.length > 0) {
+          segments[segments.length - 1].push(part);
+        }
+      });
+    } else {
+      if ((token as Key).prefix == '/' || segments.length == 0) {
+        segments.push([]);
+      }
+      segments[segments.length - 1].push(token as Key);
+    }
+  }
+
+  /**
+   * Get the param score.
+   * @param {Key} key Param key.
+   * @return {number}
+   */
+  const paramScore = (key: Key): number => {
+    if (key.repeat || key.pattern == '.*') {
+      return SEGMENT_SCORE.WILDCARD;
+    }
+    if (key.optional) {
+      return SEGMENT_SCORE.OPTIONAL_PARAM;
+    }
+    if (key.pattern != '[^\\/]+?') {
+      return SEGMENT_SCORE.PATTERN_PARAM;
+    }
+    return SEGMENT_SCORE.PARAM;
+  };
+
+  const score: number[] = [];
+  for (const segment of segments) {
+    if (segment.length == 0) {
+      continue;
+    }
+    let segmentScore = SEGMENT_SCORE.STATIC;
+    let hasStatic = false;
+    for (const part of segment) {
+      if (tc.isString(part)) {
+        hasStatic = true;
+      } else {
+        segmentScore = Math.min(segmentScore, paramScore(part as Key));
+      }
+    }
+    if (hasStatic && segmentScore < SEGMENT_SCORE.STATIC) {
+      segmentScore += SEGMENT_SCORE.STATIC_BONUS;
+    }
+    score.push(segmentScore);
+  }
+  return score;
+}
+
+/**
+ * Compare the route scores, to sort the routes
+ * from the most specific route.
+ * When the scores are equal on all common segments, the route
+ * with fewer segments wins, e.g. /users over /users/:id?.
+ * @param {number[]} a Route A score.
+ * @param {number[]} b Route B score.
+ * @return {number}
+ */
+export function compareRouteScore(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] != b[i]) {
+      return b[i] - a[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Serialize the param values of the declared param types,
+ * to generate the route URL.
+ * @param {RouteConfig} route Route config.
+ * @param {object} params Param values.
+ * @throws when any param value is not valid for the declared param type.
+ * @return {object}
+ */
+export function serializeParams(
+    route: RouteConfig,
+    params: {[k: string]: unknown}): {[k: string]: string} {
+  const serialized: {[k: string]: string} = {};
+  for (const key in params) {
+    if (params.hasOwnProperty(key)) {
+      const parser = (route.paramParsers || {})[key];
+      serialized[key] = parser != undefined
+        && tc.not.isNullOrUndefined(params[key])
+        ? parser.serialize(params[key])
+        : params[key] as string;
+    }
+  }
+  return serialized;
+}
+
 /**
  * Route record.
  */
@@ -152,36 +699,74 @@ export interface Record {
   name?: string;
   /** URL path use to resolve the route. */
   path: string;
+  /** Full alias path matched by the URL, null if the path has matched. */
+  alias: string | null;
   redirect?: routeRedirect;
   /** Svelte component. */
   component: componentType;
+  /** Svelte components keyed by the outlet name. */
+  components: {[outlet: string]: componentType};
   /** Lazy loaded component flag. */
   async: boolean;
+  /** Lazy loaded component options. */
+  lazy: LazyOptions;
+  /**
+   * Lazy loaded components resolved by the router view, keyed by
+   * the outlet name, set when the navigation does not wait
+   * for the component.
+   */
+  pending?: {[outlet: string]: Promise<object>};
   /** Route meta object. */
-  meta?: {[k: string]: string};
+  meta?: RouteMeta;
   /** Route params */
   params: {[k: string]: string};
-  props?: routeProps;
+  props?: routeProps | {[outlet: string]: routeProps};
+  /** Component props keyed by the outlet name. */
+  outletProps: {[outlet: string]: routeProps};
+  /** Route data loader. */
+  load?: routeLoader;
+  /** Loaded route data, set when the navigation is confirmed. */
+  data?: unknown;
+  /** Keep alive component flag, see the route config keepAlive. */
+  keepAlive?: boolean;
+  /** Before enter navigation guards. */
+  beforeEnter: navigationGuardFunction[];
+  /** Before leave navigation guards. */
+  beforeLeave: navigationGuardFunction[];
+  /** Before update navigation guards. */
+  beforeUpdate: navigationGuardFunction[];
 }
 
 /**
  * Create route record.
  * @param {RouteConfig} route Matching route config.
  * @param {string[]|object} params Regex exec output or params object.
+ * @param {RouteAlias|null} alias Matching route alias.
+ * @throws when any param value is not valid for the declared param type.
  * @return {Record}
  */
 export function createRouteRecord(
     route: RouteConfig,
-    params: string[] | {[k: string]: string | number}): Record {
+    params: string[] | {[k: string]: unknown},
+    alias: RouteAlias | null = null): Record {
   const record: Record = {
     id: route.id,
     path: route.path,
+    alias: alias != null ? alias.path : null,
     redirect: route.redirect,
     name: route.name,
     component: route.component || false,
+    components: {...route.components},
     async: route.async,
+    lazy: route.lazy,
     meta: route.meta,
     props: route.props,
+    outletProps: route.outletProps || {},
+    load: route.load,
+    keepAlive: route.keepAlive,
+    beforeEnter: route.beforeEnter || [],
+    beforeLeave: route.beforeLeave || [],
+    beforeUpdate: route.beforeUpdate || [],
     params: {},
   };
 
@@ -202,14 +787,39 @@ export function createRouteRecord(
     return s;
   };
 
+  const parsers = route.paramParsers || {};
+
+  /**
+   * Resolve the param value by the declared param type,
+   * or convert value to number if possible.
+   * @param {string} key Param name.
+   * @param {unknown} value Param value.
+   * @param {boolean} url The value is captured from the URL.
+   * @throws when the value is not valid for the declared param type.
+   * @return {unknown}
+   */
+  const resolveValue = (key: string, value: unknown, url: boolean): unknown => {
+    if (parsers[key] == undefined) {
+      return resolveNumber(value as string | number);
+    }
+    try {
+      return url
+        ? parsers[key].parse(value as string)
+        : parsers[key].parse(parsers[key].serialize(value));
+    } catch (e: any) {
+      throw new Error(`invalid param "${key}", ${e.toString()}`);
+    }
+  };
+
   // Regex array setter
   let setParamValue = (
       key: string,
-      collection: {[k: string]: string | number},
+      collection: {[k: string]: unknown},
       index: number): void => {
     index++;
-    if (index < (params as string[]).length) {
-      collection[key] = resolveNumber((params as string[])[index]);
+    if (index < (params as string[]).length
+    && tc.not.isNullOrUndefined((params as string[])[index])) {
+      collection[key] = resolveValue(key, (params as string[])[index], true);
     }
   };
 
@@ -217,16 +827,18 @@ export function createRouteRecord(
   if (tc.isObject(params)) {
     setParamValue = (
         key: string,
-        collection: {[k: string]: string | number}): void => {
-      if (tc.not.isNullOrUndefined((params as {[k: string]: string})[key])) {
-        collection[key] = resolveNumber((params as {[k: string]: string})[key]);
+        collection: {[k: string]: unknown}): void => {
+      if (tc.not.isNullOrUndefined((params as {[k: string]: unknown})[key])) {
+        collection[key] = resolveValue(
+            key, (params as {[k: string]: unknown})[key], false);
       }
     };
   }
 
   // Params
-  for (let i = 0; i < route.paramKeys.length; i++) {
-    setParamValue(route.paramKeys[i].name as string, record.params, i);
+  const paramKeys = alias != null ? alias.paramKeys : route.paramKeys;
+  for (let i = 0; i < paramKeys.length; i++) {
+    setParamValue(paramKeys[i].name as string, record.params, i);
   }
 
   return record;
@@ -234,54 +846,143 @@ export function createRouteRecord(
 
 /**
  * Route object.
+ * @template Meta Route meta type, defaults to the meta type
+ * of the [[RouterRegister]].
  */
-export interface Route {
+export interface Route<Meta extends object = RegisteredRouteMeta> {
   /** Name of the route. */
   name?: string;
   redirect?: routeRedirect;
   /** Router URL without hash or query params */
   path: string;
+  /** Full alias path of the matched route, null if the path has matched. */
+  alias: string | null;
   /** URL hash. */
   hash: string;
   /** Router full URL. */
   fullPath: string;
   /** Query parameters. */
-  query: {[k: string]: string};
+  query: QueryParams;
   /** Captured router parameters. */
   params: {[k: string]: string};
-  /** Route meta props. */
-  meta?: {[k: string]: string};
+  /** Route meta props of the resolved route record. */
+  meta?: Meta;
+  /**
+   * Route meta props of all matched route records,
+   * merged from the parent to the child, see the metaMerge router option.
+   */
+  mergedMeta: Meta;
   /** History action. */
   action: HISTORY_ACTION;
+  /** Navigation direction. */
+  direction: NAVIGATION_DIRECTION;
+  /**
+   * Full URL of the route initially navigated to,
+   * null if the navigation has not been redirected.
+   */
+  redirectedFrom: string | null;
   /** Collection of matched router records (top-bottom). */
   matched: Record[];
 }
 
+/**
+ * Route resolution of the raw location, see Router resolve method.
+ */
+export type RouteResolution<M extends RouteMap = RouteMap> = {
+  /** The route has been resolved. */
+  resolved: true;
+  /** Resolved route. */
+  route: TypedRoute<M>;
+  /** Final URL of the route, including the basename. */
+  href: string;
+  error: null;
+} | {
+  /** No matching route has been found. */
+  resolved: false;
+  route: null;
+  href: null;
+  /** Resolution error. */
+  error: Error;
+};
+
+/**
+ * Deep merge the child meta into the parent meta,
+ * the nested plain objects are merged recursively.
+ * @param {RouteMeta} parent Parent meta.
+ * @param {RouteMeta} child Child meta.
+ * @return {RouteMeta}
+ */
+function deepMergeMeta(parent: RouteMeta, child: RouteMeta): RouteMeta {
+  const merged = {...parent};
+  for (const key of Object.keys(child)) {
+    merged[key] = tc.isObject(merged[key]) && tc.isObject(child[key])
+      ? deepMergeMeta(merged[key] as RouteMeta, child[key] as RouteMeta)
+      : child[key];
+  }
+  return merged;
+}
+
+/**
+ * Merge the meta of the matched route records, from the parent
+ * to the child.
+ * @param {Record[]} matches collection of matched route records.
+ * @param {META_MERGE|function} merge meta merge strategy.
+ * @return {RouteMeta}
+ */
+export function mergeMeta(
+    matches: Record[],
+    merge: META_MERGE | metaMergeFunction = META_MERGE.SHALLOW): RouteMeta {
+  let mergeFn: metaMergeFunction = (parent, child): RouteMeta =>
+    ({...parent, ...child});
+  if (tc.isFunction(merge)) {
+    mergeFn = merge as metaMergeFunction;
+  } else if (merge == META_MERGE.DEEP) {
+    mergeFn = deepMergeMeta;
+  }
+  return matches.reduce(
+      (merged: RouteMeta, record) => mergeFn(merged, record.meta || {}),
+      {});
+}
+
 /**
  * Create route object.
  * @param {Location} location triggered location.
  * @param {Record[]} matches collection of matched route records.
+ * @param {function} stringify query params stringifier.
+ * @param {META_MERGE|function} merge meta merge strategy.
  * @return {Route}
  */
-export function createRoute(location: Location, matches: Record[]): Route {
+export function createRoute(
+    location: Location,
+    matches: Record[],
+    stringify: queryStringifier = stringifyQuery,
+    merge: META_MERGE | metaMergeFunction = META_MERGE.SHALLOW): Route {
   // Get the last route in the stack as the resolved route
   const route = matches[matches.length-1];
   return {
     name: route.name,
     action: location.action,
     path: location.path,
+    alias: route.alias || null,
     redirect: route.redirect,
     hash: location.hash,
-    fullPath: fullURL(location.path, location.query, location.hash),
+    fullPath: fullURL(
+        location.path, location.query, location.hash, stringify),
     params: route.params,
     query: location.query,
-    meta: route.meta,
+    meta: route.meta as RegisteredRouteMeta | undefined,
+    mergedMeta: mergeMeta(matches, merge) as RegisteredRouteMeta,
+    direction: location.action == HISTORY_ACTION.REPLACE
+      ? NAVIGATION_DIRECTION.REPLACE
+      : NAVIGATION_DIRECTION.FORWARD,
+    redirectedFrom: null,
     matched: matches,
   };
 };
 
 /**
- * Deep clone route.
+ * Clone route, the route records are copied,
+ * the param values and the meta are kept by reference.
  * @param {Route} route source route.
  * @return {Route}
  */
@@ -289,13 +990,23 @@ export function cloneRoute(route: Route): Route {
   if (route == null) {
     return {} as Route;
   }
-  const clone = deepClone(route) as Route;
-  clone.redirect = route.redirect;
-  for (let i = 0; i < route.matched.length; i++) {
-    clone.matched[i].component = route.matched[i].component;
-    clone.matched[i].props = route.matched[i].props;
-    clone.matched[i].meta = route.matched[i].meta;
-    clone.matched[i].redirect = route.matched[i].redirect;
-  }
-  return clone;
+  // The param values are kept by reference, i.e. the parsed
+  // typed values, e.g. Date, are preserved
+  return {
+    ...route,
+    params: {...route.params},
+    query: deepClone(route.query) as QueryParams,
+    matched: route.matched.map((record) => ({
+      ...record,
+      components: {...record.components},
+      pending: record.pending && {...record.pending},
+      params: {...record.params},
+    })),
+  };
 }
+
+export {
+  ROUTE_MATCHING,
+  TRAILING_SLASH,
+  META_MERGE,
+};
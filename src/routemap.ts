@@ -0,0 +1,231 @@
+/**
+ * Svelte Router type-safe route map module.
+ * @module svelte-router/routemap
+ */
+
+import {Route, RouteConfigPrefab, RouteMeta} from './route';
+import {RawLocation} from './location';
+import {PARAM_TYPE, ParamParser} from './params';
+
+/**
+ * Route map, route params dictionary keyed by the route name.
+ */
+export type RouteMap = {[name: string]: {[param: string]: unknown}};
+
+/**
+ * Param value of the untyped route param, the numeric params are
+ * converted to numbers.
+ */
+type defaultParamValue = string | number;
+
+type wordChar =
+  | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l'
+  | 'm' | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x'
+  | 'y' | 'z' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I' | 'J'
+  | 'K' | 'L' | 'M' | 'N' | 'O' | 'P' | 'Q' | 'R' | 'S' | 'T' | 'U' | 'V'
+  | 'W' | 'X' | 'Y' | 'Z' | '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7'
+  | '8' | '9' | '_';
+
+/**
+ * Split the path at the end of the param name.
+ */
+type splitParamName<Path extends string, Name extends string = ''> =
+  Path extends `${infer C}${infer Rest}`
+    ? C extends wordChar
+      ? splitParamName<Rest, `${Name}${C}`>
+      : {name: Name; rest: Path}
+    : {name: Name; rest: ''};
+
+/**
+ * Skip the custom param pattern, e.g. (\\d+).
+ */
+type skipParamPattern<Path extends string> =
+  Path extends `(${string})${infer Rest}` ? Rest : Path;
+
+/**
+ * Required and optional param names of the path,
+ * the params with "?" or "*" modifier are optional.
+ */
+type pathParamNames<
+  Path extends string,
+  Required extends string = never,
+  Optional extends string = never
+> =
+  Path extends `${string}:${infer Tail}`
+    ? splitParamName<Tail> extends {
+        name: infer Name extends string;
+        rest: infer Rest extends string;
+      }
+      ? skipParamPattern<Rest> extends `${'?' | '*'}${infer Next}`
+        ? pathParamNames<Next, Required, Optional | Name>
+        : pathParamNames<skipParamPattern<Rest>, Required | Name, Optional>
+      : never
+    : {required: Required; optional: Optional};
+
+/**
+ * Param value of the declared param type.
+ */
+type paramValue<Type> =
+  Type extends PARAM_TYPE.INT | PARAM_TYPE.FLOAT ? number
+  : Type extends PARAM_TYPE.BOOLEAN ? boolean
+  : Type extends PARAM_TYPE.DATE ? Date
+  : Type extends PARAM_TYPE ? string
+  : Type extends readonly (infer Value)[] ? Value
+  : Type extends ParamParser ? ReturnType<Type['parse']>
+  : defaultParamValue;
+
+type paramValueOf<Types, Name extends string> =
+  Name extends keyof Types ? paramValue<Types[Name]> : defaultParamValue;
+
+type simplify<T> = {[K in keyof T]: T[K]} & {};
+
+/**
+ * Route params of the path, derived from the :param segments.
+ * @template Path Route path, e.g. /users/:id(\\d+)/:tab?
+ * @template Types Declared param types, see the route paramTypes.
+ */
+export type PathParams<Path extends string, Types = {}> =
+  pathParamNames<Path> extends {
+    required: infer Required extends string;
+    optional: infer Optional extends string;
+  }
+    ? simplify<
+        {[K in Required]: paramValueOf<Types, K>} &
+        {[K in Optional]?: paramValueOf<Types, K>}
+      >
+    : never;
+
+type unionToIntersection<U> =
+  (U extends unknown ? (u: U) => void : never) extends
+    ((i: infer I) => void) ? I : never;
+
+type routeParamTypes<R> =
+  R extends {paramTypes: infer Types extends object} ? Types : {};
+
+/**
+ * Route map entries of the route and its children.
+ */
+type routeMapEntries<R, ParentPath extends string, ParentTypes> =
+  R extends {path: infer Path extends string}
+    ? (R extends {name: infer Name extends string}
+        ? {
+            [K in Name]: PathParams<
+              `${ParentPath}/${Path}`,
+              ParentTypes & routeParamTypes<R>
+            >
+          }
+        : {}) &
+      (R extends {children: infer Children extends readonly unknown[]}
+        ? routeMapOfList<
+            Children,
+            `${ParentPath}/${Path}`,
+            ParentTypes & routeParamTypes<R>
+          >
+        : {})
+    : {};
+
+type routeMapOfList<
+  Routes extends readonly unknown[],
+  ParentPath extends string,
+  ParentTypes
+> = unionToIntersection<
+  routeMapEntries<Routes[number], ParentPath, ParentTypes>
+>;
+
+/**
+ * Route map inferred from the routes definition, the names
+ * and paths must be preserved as literal types, e.g. by "as const",
+ * otherwise the route map is untyped.
+ * @template Routes Routes definition.
+ */
+export type RouteMapOf<
+  Routes extends readonly RouteConfigPrefab<object>[]
+> =
+  RouteConfigPrefab extends Routes[number]
+    ? RouteMap
+    : simplify<routeMapOfList<Routes, '', {}>> extends
+      infer Map extends RouteMap
+      ? Map
+      : RouteMap;
+
+/**
+ * Route name of the route map.
+ */
+export type RouteName<M extends RouteMap> = Extract<keyof M, string>;
+
+/**
+ * Untyped route map, i.e. the route names are not known.
+ */
+type isUntyped<M extends RouteMap> =
+  string extends RouteName<M> ? true : false;
+
+/**
+ * Named location object of the route map,
+ * the params are required if the route has any required param.
+ */
+export type NamedLocation<M extends RouteMap = RouteMap> = {
+  [N in RouteName<M>]: Omit<RawLocation, 'name' | 'params'> & {
+    /** Name of the route. */
+    name: N;
+  } & ({} extends M[N]
+    ? {/** Route parameters. */ params?: M[N]}
+    : {/** Route parameters. */ params: M[N]});
+}[RouteName<M>];
+
+/**
+ * Path location object, i.e. without the route name.
+ */
+type pathLocation = Omit<RawLocation, 'name' | 'params'> & {
+  name?: undefined;
+  params?: undefined;
+  path: string;
+};
+
+/**
+ * Raw path or location object of the route map.
+ */
+export type RouteLocation<M extends RouteMap = RouteMap> =
+  isUntyped<M> extends true
+    ? RawLocation | string
+    : NamedLocation<M> | pathLocation | string;
+
+/**
+ * Route of the route map, the params are typed by the route name.
+ */
+export type TypedRoute<M extends RouteMap = RouteMap> =
+  isUntyped<M> extends true
+    ? Route
+    : {
+        [N in RouteName<M>]: Omit<Route, 'name' | 'params'> & {
+          /** Name of the route. */
+          name: N;
+          /** Captured router parameters. */
+          params: M[N];
+        };
+      }[RouteName<M>] | (Route & {name?: undefined});
+
+/**
+ * Router register, augment it with the route map to type the Link
+ * component and the router store, and with the route meta type
+ * to type the route meta:
+ * declare module '@spaceavocado/svelte-router' {
+ *   interface RouterRegister {
+ *     routes: RouteMapOf<typeof routes>;
+ *     meta: {requiresAuth?: boolean; roles?: string[]};
+ *   }
+ * }
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface RouterRegister {}
+
+/**
+ * Route map of the router register.
+ */
+export type RegisteredRouteMap =
+  RouterRegister extends {routes: infer M extends RouteMap} ? M : RouteMap;
+
+/**
+ * Route meta type of the router register.
+ */
+export type RegisteredRouteMeta =
+  RouterRegister extends {meta: infer Meta extends object} ? Meta : RouteMeta;
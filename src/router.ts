@@ -12,33 +12,93 @@ import {
 } from './location';
 import {
   HistoryLocation,
+  QueryParams,
   joinPath,
   fullURL,
   historyFullURL,
   hasPrefix,
+  hasSuffix,
   trimPrefix,
+  queryParser,
+  queryStringifier,
+  parseQuery,
+  stringifyQuery,
 } from './utils';
 import {
   Route,
+  RouteResolution,
   Record,
   RouteConfig,
   RouteConfigPrefab,
+  RouteAlias,
+  ROUTE_MATCHING,
+  TRAILING_SLASH,
+  META_MERGE,
+  metaMergeFunction,
   routeRedirect,
   componentModule,
+  LazyComponent,
+  isLazyComponent,
+  asyncOutlets,
+  DEFAULT_OUTLET,
+  routeLoader,
   createRouteConfig,
   createRouteRecord,
   createRoute,
   cloneRoute,
+  routeScore,
+  compareRouteScore,
+  serializeParams,
 } from './route';
+import {
+  NAVIGATION_RESULT,
+  NAVIGATION_DIRECTION,
+  NavigationResult,
+  navigationGuardNextAction,
+  navigationGuardFunction,
+  navigationGuardResult,
+  navigationCallback,
+  createNavigationResult,
+} from './navigation';
+import {
+  ScrollPosition,
+  ScrollTarget,
+  scrollBehaviorFunction,
+  defaultScrollBehavior,
+  getScrollPosition,
+  scrollToTarget,
+} from './scroll';
+import {
+  RouteMap,
+  RouteLocation,
+  NamedLocation,
+  TypedRoute,
+} from './routemap';
+import {RouteStores, createRouteStores} from './stores';
+
+/**
+ * Time to wait for the history change triggered by the history pop
+ * action, e.g. the browser history does not change out of range.
+ */
+const HISTORY_POP_TIMEOUT = 1000;
+
+/**
+ * Maximum count of the saved scroll positions,
+ * the least recently saved positions are evicted.
+ */
+const SCROLL_POSITIONS_LIMIT = 50;
 
 type historyModule = {
   action: HISTORY_ACTION;
   location: HistoryLocation;
-  push: (path: string) => void;
-  replace: (path: string) => void;
+  push: (path: string, state?: object) => void;
+  replace: (path: string, state?: object) => void;
   go: (n: number) => void;
   goBack: () => void;
   goForward: () => void;
+  /** Available only for the in-memory history. */
+  canGo?: (n: number) => boolean;
+  createHref: (location: Partial<HistoryLocation>) => string;
   listen: (listener:
     (location: HistoryLocation, action: HISTORY_ACTION) => void
   ) => () => void;
@@ -52,6 +112,8 @@ interface HistoryOptions {
   basename?: string;
   /** Hash type. */
   hashType?: string;
+  /** Initial entries of the in-memory history. */
+  initialEntries?: string[];
 }
 
 /**
@@ -64,26 +126,82 @@ export interface RouterConfig {
   basename?: string;
   /** Hash type. */
   hashType?: HASH_TYPE;
+  /**
+   * Initial URL of the in-memory history, without the basename,
+   * defaults to '/'. Relevant only for HISTORY_MODE.MEMORY.
+   */
+  initialURL?: string;
   /** Router routes. */
-  routes: RouteConfigPrefab[];
+  routes: readonly RouteConfigPrefab<object>[];
+  /**
+   * Resolve bracket-style query keys as nested objects,
+   * e.g. a[b]=c, or arrays, e.g. a[]=b. Defaults to false.
+   */
+  nestedQuery?: boolean;
+  /** Custom query string parser, the query string is without "?". */
+  parseQuery?: queryParser;
+  /** Custom query params stringifier, the query string is without "?". */
+  stringifyQuery?: queryStringifier;
+  /**
+   * Route matching mode, defaults to ROUTE_MATCHING.RANKED,
+   * ROUTE_MATCHING.ORDERED keeps the declaration order.
+   */
+  matching?: ROUTE_MATCHING;
+  /**
+   * The trailing slash of the path is significant, e.g. /about
+   * does not match /about/. Defaults to false.
+   */
+  strict?: boolean;
+  /** Case-sensitive path matching. Defaults to false. */
+  sensitive?: boolean;
+  /**
+   * Canonical trailing slash of the URL path, defaults to
+   * TRAILING_SLASH.KEEP. The navigation to the non-canonical path
+   * is redirected to the canonical path with the history replace,
+   * see lowercase.
+   */
+  trailingSlash?: TRAILING_SLASH;
+  /**
+   * Canonical lowercase URL path, only the static segments
+   * are lowercased, the param values, query and hash are kept.
+   * Defaults to false.
+   */
+  lowercase?: boolean;
+  /**
+   * Merge strategy of the route mergedMeta, a META_MERGE strategy
+   * or a custom fn(parent, child) merge function.
+   * Defaults to META_MERGE.SHALLOW.
+   */
+  metaMerge?: META_MERGE | metaMergeFunction;
   /** CSS class applied on the active route link. Defaults to "active". */
   activeClass?: string;
   /** History options */
   historyOpts?: HistoryOptions;
+  /**
+   * Navigation guard timeout in milliseconds,
+   * defaults to 0, i.e. no timeout.
+   */
+  guardTimeout?: number;
+  /**
+   * Maximum count of the redirects within a navigation, including
+   * the navigation guard redirects. Defaults to 10.
+   */
+  maxRedirects?: number;
+  /**
+   * Expiration of the prefetched route data in milliseconds,
+   * defaults to 30000.
+   */
+  prefetchExpiry?: number;
+  /**
+   * Scroll behavior function, called after the navigation change
+   * with the saved scroll position of the history entry on POP
+   * history action. Defaults to restoring the saved position or
+   * scrolling to the route hash element, see defaultScrollBehavior,
+   * the in-memory history does not scroll by default.
+   */
+  scrollBehavior?: scrollBehaviorFunction;
 }
 
-/**
- * Possible actions:
- * * fn() or fn(true) = Continue.
- * * fn(false) = Abort the navigation.
- * * fn(Error) = Abort the navigation and trigger navigation error.
- * * fn(url) or fn(RawLocation) = Break the navigation
- * and resolve the new navigation.
- */
-type navigationGuardNextAction = undefined | boolean | Error | string | object;
-type navigationGuardFunction = (from: Route | null, to: Route | null,
-  next: (action?: navigationGuardNextAction) => void) => void;
-
 /**
  * Navigation Guard entry.
  */
@@ -95,6 +213,72 @@ interface NavigationGuard {
 type onErrorCallback = (e: Error) => void;
 type onNavigationCallback = (from: Route, to: Route) => void;
 
+/**
+ * Navigation in progress.
+ */
+interface Navigation {
+  /** On complete callback. */
+  onComplete?: navigationCallback;
+  /** On abort callback. */
+  onAbort?: navigationCallback;
+  /** Navigation promise resolver. */
+  resolve: (result: NavigationResult) => void;
+  /** Navigation direction. */
+  direction: NAVIGATION_DIRECTION;
+  /**
+   * Number of the popped history entries, 0 if not known,
+   * null if the navigation is not triggered by the history, i.e. by
+   * the initial navigation or the history pop.
+   */
+  popDelta: number | null;
+  /** The navigation has been redirected. */
+  redirected: boolean;
+  /** Full URLs of the redirected routes, in the redirect order. */
+  redirects: string[];
+  /** Resolve the navigation even if the location equals the current route. */
+  force: boolean;
+  /**
+   * The navigation has been settled, any further
+   * guard or async component resolution is ignored.
+   */
+  settled: boolean;
+  /** Navigation guards resolved in sequence. */
+  guards: navigationGuardFunction[];
+}
+
+/**
+ * Prefetch options.
+ */
+export interface PrefetchOptions {
+  /**
+   * Resolve the route data loaders of all matched routes,
+   * defaults to false, i.e. only the lazy loaded components are loaded.
+   */
+  data?: boolean;
+}
+
+/**
+ * Prefetched route data of the full URL.
+ */
+interface PrefetchedData {
+  /** Expiration time in milliseconds, see Date.now. */
+  expires: number;
+  /** Route data loader results keyed by the route record ID. */
+  data: Map<symbol, Promise<unknown>>;
+}
+
+/**
+ * Final route path or alias ranked by the path specificity.
+ */
+interface RankedRoute {
+  /** Final route config. */
+  route: RouteConfig;
+  /** Route alias, null for the route path. */
+  alias: RouteAlias | null;
+  /** Path specificity score. */
+  score: number[];
+}
+
 /**
  * Router event listeners collection.
  */
@@ -102,23 +286,51 @@ interface EventListeners {
   onError: Map<symbol, onErrorCallback>;
   onBeforeNavigation: Map<symbol, onNavigationCallback>;
   onNavigationChanged: Map<symbol, onNavigationCallback>;
+  onNavigationSettled: Map<symbol, navigationCallback>;
 }
 
 /**
  * Svelte Router core class.
+ * @template M Route map, see RouteMapOf, the route names and params
+ * of the navigation methods are type checked against it.
  */
-export class Router {
+export class Router<M extends RouteMap = RouteMap> {
   private _mode: HISTORY_MODE;
   private _basename: string;
   private _routes: RouteConfig[];
+  private _matching: ROUTE_MATCHING;
+  private _strict: boolean;
+  private _sensitive: boolean;
+  private _trailingSlash: TRAILING_SLASH;
+  private _lowercase: boolean;
+  private _metaMerge: META_MERGE | metaMergeFunction;
+  private _rankedRoutes: RankedRoute[] | null;
   private _activeClass: string;
+  private _guardTimeout: number;
+  private _maxRedirects: number;
+  private _prefetchExpiry: number;
+  private _parseQuery: queryParser;
+  private _stringifyQuery: queryStringifier;
   private _history: historyModule;
   private _historyListener: () => void;
   private _navigationGuards: NavigationGuard[];
+  private _leaveGuards: Map<symbol, NavigationGuard[]>;
+  private _updateGuards: Map<symbol, NavigationGuard[]>;
   private _listeners: EventListeners;
   private _currentRoute: Route | null = null;
   private _pendingRoute: Route | null = null;
-  private _asyncViews: Map<symbol, () => object>;
+  private _navigation: Navigation | null = null;
+  private _asyncViews: Map<symbol, {[outlet: string]: () => object}>;
+  private _asyncLoading: Map<symbol, {[outlet: string]: Promise<void>}>;
+  private _prefetchedData: Map<string, PrefetchedData>;
+  private _popResolvers: ((result: NavigationResult) => void)[];
+  private _scrollBehavior: scrollBehaviorFunction | null;
+  private _scrollPositions: Map<string, ScrollPosition>;
+  private _historyKey: string;
+  private _historyIndex: number;
+  private _revertedIndex: number | null = null;
+  private _started = false;
+  private _stores: RouteStores<M> | null = null;
 
   /**
    * @constructor
@@ -149,10 +361,80 @@ export class Router {
       opts.historyOpts.hashType = opts.historyOpts.hashType.toLowerCase();
     }
 
+    if (opts.mode == HISTORY_MODE.MEMORY) {
+      opts.initialURL = opts.initialURL || '/';
+      if (tc.not.isString(opts.initialURL)) {
+        throw new Error(`invalid initial URL, "${opts.initialURL}"`);
+      }
+      opts.historyOpts.initialEntries = [opts.initialURL];
+    }
+
+    opts.matching = opts.matching || ROUTE_MATCHING.RANKED;
+    if (tc.not.isEnumKey(opts.matching, ROUTE_MATCHING)) {
+      throw new Error(`invalid route matching, "${opts.matching}"`);
+    }
+
+    opts.trailingSlash = opts.trailingSlash || TRAILING_SLASH.KEEP;
+    if (tc.not.isEnumKey(opts.trailingSlash, TRAILING_SLASH)) {
+      throw new Error(`invalid trailing slash, "${opts.trailingSlash}"`);
+    }
+
+    opts.metaMerge = opts.metaMerge || META_MERGE.SHALLOW;
+    if (tc.not.isFunction(opts.metaMerge)
+      && tc.not.isEnumKey(opts.metaMerge, META_MERGE)) {
+      throw new Error(`invalid meta merge, "${opts.metaMerge}"`);
+    }
+
+    opts.guardTimeout = opts.guardTimeout || 0;
+    if (tc.not.isNumber(opts.guardTimeout) || opts.guardTimeout < 0) {
+      throw new Error(`invalid guard timeout, "${opts.guardTimeout}"`);
+    }
+
+    const maxRedirects = tc.isNullOrUndefined(opts.maxRedirects)
+      ? 10
+      : opts.maxRedirects as number;
+    if (tc.not.isNumber(maxRedirects) || maxRedirects < 0) {
+      throw new Error(`invalid max redirects, "${maxRedirects}"`);
+    }
+
+    const prefetchExpiry = tc.isNullOrUndefined(opts.prefetchExpiry)
+      ? 30000
+      : opts.prefetchExpiry as number;
+    if (tc.not.isNumber(prefetchExpiry) || prefetchExpiry < 0) {
+      throw new Error(`invalid prefetch expiry, "${prefetchExpiry}"`);
+    }
+
+    const nestedQuery = opts.nestedQuery === true;
+    if (tc.not.isNullOrUndefined(opts.parseQuery)
+      && tc.not.isFunction(opts.parseQuery)) {
+      throw new Error('invalid parseQuery, expected function');
+    }
+    if (tc.not.isNullOrUndefined(opts.stringifyQuery)
+      && tc.not.isFunction(opts.stringifyQuery)) {
+      throw new Error('invalid stringifyQuery, expected function');
+    }
+    if (tc.not.isNullOrUndefined(opts.scrollBehavior)
+      && tc.not.isFunction(opts.scrollBehavior)) {
+      throw new Error('invalid scrollBehavior, expected function');
+    }
+
     this._mode = opts.mode;
     this._basename = opts.historyOpts.basename;
     this._routes = [];
+    this._matching = opts.matching;
+    this._strict = opts.strict === true;
+    this._sensitive = opts.sensitive === true;
+    this._trailingSlash = opts.trailingSlash;
+    this._lowercase = opts.lowercase === true;
+    this._metaMerge = opts.metaMerge;
+    this._rankedRoutes = null;
     this._activeClass = opts.activeClass || 'active';
+    this._guardTimeout = opts.guardTimeout;
+    this._maxRedirects = maxRedirects;
+    this._prefetchExpiry = prefetchExpiry;
+    this._parseQuery = opts.parseQuery
+      || ((search: string): QueryParams => parseQuery(search, nestedQuery));
+    this._stringifyQuery = opts.stringifyQuery || stringifyQuery;
     this._history = createHistory(
         this._mode, opts.historyOpts || {}
     ) as historyModule;
@@ -160,20 +442,47 @@ export class Router {
         this.onHistoryChange.bind(this)
     );
 
+    // Scroll behavior, saved scroll positions keyed by history entry,
+    // the in-memory history does not scroll by default
+    this._scrollBehavior = opts.scrollBehavior
+      || (this._mode != HISTORY_MODE.MEMORY ? defaultScrollBehavior : null);
+    this._scrollPositions = new Map();
+    this._historyKey = this.historyKey(this._history.location);
+
+    // History entry index, resolving the navigation direction,
+    // the initial history entry is indexed on start
+    this._historyIndex = this.historyIndex(this._history.location) || 0;
+    if (this._scrollBehavior != null
+      && this._mode != HISTORY_MODE.MEMORY
+      && typeof window !== 'undefined'
+      && 'scrollRestoration' in window.history) {
+      window.history.scrollRestoration = 'manual';
+    }
+
     // Navigation guards and listeners
     this._navigationGuards = [];
+    this._leaveGuards = new Map();
+    this._updateGuards = new Map();
     this._listeners = {
       onError: new Map(),
       onBeforeNavigation: new Map(),
       onNavigationChanged: new Map(),
+      onNavigationSettled: new Map(),
     };
 
-    // Current resolved route and resolved pending route
+    // Current resolved route, resolved pending route
+    // and navigation in progress
     this._currentRoute = null;
     this._pendingRoute = null;
+    this._navigation = null;
 
-    // Async views
+    // Async views and prefetched route data
     this._asyncViews = new Map();
+    this._asyncLoading = new Map();
+    this._prefetchedData = new Map();
+
+    // Pending history go, back, forward promise resolvers
+    this._popResolvers = [];
 
     // Preprocess routes
     this.preprocessRoutes(this._routes, opts.routes);
@@ -181,9 +490,15 @@ export class Router {
 
   /**
    * Trigger the on load history change.
+   * The router is started only once, i.e. by the first root router view.
    */
   start(): void {
-    this.onHistoryChange(this._history.location, HISTORY_ACTION.POP);
+    if (this._started) {
+      return;
+    }
+    this._started = true;
+    this.indexHistory();
+    this.onHistoryChange(this._history.location, HISTORY_ACTION.POP, true);
   }
 
   /**
@@ -210,8 +525,29 @@ export class Router {
   /**
    * Get current resolved route
    */
-  get currentRoute(): Route | null {
-    return this._currentRoute;
+  get currentRoute(): TypedRoute<M> | null {
+    return this._currentRoute as TypedRoute<M> | null;
+  }
+
+  /**
+   * Get the route being navigated to, resolved before
+   * the navigation guards, null when no navigation is in progress.
+   */
+  get pendingRoute(): TypedRoute<M> | null {
+    return this._navigation != null
+      ? this._pendingRoute as TypedRoute<M> | null
+      : null;
+  }
+
+  /**
+   * Get the route and navigation state stores of the router,
+   * see RouteStores.
+   */
+  get stores(): RouteStores<M> {
+    if (this._stores == null) {
+      this._stores = createRouteStores(this);
+    }
+    return this._stores;
   }
 
   /**
@@ -241,6 +577,31 @@ export class Router {
     };
   }
 
+  /**
+   * Register a navigation guard which will be called
+   * whenever the route record of the given route ID is being left.
+   * Leave guards are resolved before the global navigation guards.
+   * @param {symbol} id Route ID, see the route record ID.
+   * @param {function} guard Guard callback function.
+   * @return {function} Unregister guard function.
+   */
+  routeLeaveGuard(id: symbol, guard: navigationGuardFunction): () => void {
+    return this.registerRouteGuard(this._leaveGuards, id, guard);
+  }
+
+  /**
+   * Register a navigation guard which will be called
+   * whenever the route record of the given route ID is being reused
+   * with changed params.
+   * Update guards are resolved after the global navigation guards.
+   * @param {symbol} id Route ID, see the route record ID.
+   * @param {function} guard Guard callback function.
+   * @return {function} Unregister guard function.
+   */
+  routeUpdateGuard(id: symbol, guard: navigationGuardFunction): () => void {
+    return this.registerRouteGuard(this._updateGuards, id, guard);
+  }
+
   /**
    * Register a callback which will be called before
    * execution of navigation guards.
@@ -270,6 +631,21 @@ export class Router {
     };
   }
 
+  /**
+   * Register a callback which will be called when
+   * the navigation is settled with any result, i.e. completed,
+   * aborted, cancelled or failed.
+   * @param {function} callback callback function.
+   * @return {function} Unregister listener function.
+   */
+  onNavigationSettled(callback: navigationCallback): () => void {
+    const key = Symbol();
+    this._listeners.onNavigationSettled.set(key, callback);
+    return (): void => {
+      this._listeners.onNavigationSettled.delete(key);
+    };
+  }
+
   /**
    * Register a callback which will be called when an error
    * is caught during a route navigation.
@@ -289,29 +665,15 @@ export class Router {
    * @param {RawLocation|string} rawLocation raw path or location object.
    * @param {function?} onComplete On complete callback function.
    * @param {function?} onAbort On abort callback function.
-   * @throws When the rawLocation is invalid or when the path is invalid.
+   * @return {Promise<NavigationResult>} Resolved when the navigation
+   * is settled, it never rejects.
    */
   push(
-      rawLocation: RawLocation | string,
-      onComplete?: () => void,
-      onAbort?: () => void): void {
-    let location;
-    try {
-      location = this.rawLocationToLocation(rawLocation, false);
-    } catch (e: any) {
-      if (onAbort && tc.isFunction(onAbort)) {
-        onAbort();
-      }
-      this.notifyOnError(
-          new Error(`invalid location, ${e.toString()}`)
-      );
-      return;
-    }
-
-    this.resolveRoute(location,
-      tc.isFunction(onComplete) ? onComplete : undefined,
-      tc.isFunction(onAbort) ? onAbort : undefined,
-    );
+      rawLocation: RouteLocation<M>,
+      onComplete?: navigationCallback,
+      onAbort?: navigationCallback): Promise<NavigationResult> {
+    return this.navigate(
+        rawLocation as RawLocation | string, false, onComplete, onAbort);
   }
 
   /**
@@ -319,61 +681,93 @@ export class Router {
    * @param {RawLocation|string} rawLocation raw path or location object.
    * @param {function?} onComplete On complete callback function.
    * @param {function?} onAbort On abort callback function.
-   * @throws when the rawLocation is invalid or when the path is invalid.
+   * @return {Promise<NavigationResult>} Resolved when the navigation
+   * is settled, it never rejects.
    */
   replace(
-      rawLocation: RawLocation | string,
-      onComplete?: () => void,
-      onAbort?: () => void): void {
-    let location;
-    try {
-      location = this.rawLocationToLocation(rawLocation, true);
-    } catch (e: any) {
-      if (onAbort && tc.isFunction(onAbort)) {
-        onAbort();
-      }
-      this.notifyOnError(
-          new Error(`invalid location, ${e.toString()}`)
-      );
-      return;
-    }
-
-    this.resolveRoute(location,
-      tc.isFunction(onComplete) ? onComplete : undefined,
-      tc.isFunction(onAbort) ? onAbort : undefined,
-    );
+      rawLocation: RouteLocation<M>,
+      onComplete?: navigationCallback,
+      onAbort?: navigationCallback): Promise<NavigationResult> {
+    return this.navigate(
+        rawLocation as RawLocation | string, true, onComplete, onAbort);
   }
 
   /**
    * Go to a specific history position in the navigation history.
    * @param {number} n number of steps to forward
    * or backwards (negative number).
+   * @return {Promise<NavigationResult>} Resolved when the navigation
+   * triggered by the history change is settled, or aborted when
+   * the history could not go to the position.
    */
-  go(n: number): void {
-    this._history.go(n);
+  go(n: number): Promise<NavigationResult> {
+    return this.historyPop(n);
   }
 
   /**
    * Go one step back in the navigation history.
+   * @return {Promise<NavigationResult>} Resolved when the navigation
+   * triggered by the history change is settled, or aborted when
+   * the history could not go back.
    */
-  back(): void {
-    this._history.goBack();
+  back(): Promise<NavigationResult> {
+    return this.historyPop(-1);
   }
 
   /**
    * Go one step forward in the navigation history.
+   * @return {Promise<NavigationResult>} Resolved when the navigation
+   * triggered by the history change is settled, or aborted when
+   * the history could not go forward.
+   */
+  forward(): Promise<NavigationResult> {
+    return this.historyPop(1);
+  }
+
+  /**
+   * Prefetch the route of the raw location without navigating,
+   * i.e. load the lazy loaded components, and optionally resolve
+   * the route data loaders of all matched routes. The prefetched data
+   * is used by the next navigation to the same URL until it expires.
+   * The navigation guards are not resolved.
+   * @param {RawLocation|string} rawLocation raw path or location object.
+   * @param {PrefetchOptions} opts Prefetch options.
+   * @return {Promise<void>} Rejected when the route could not be resolved,
+   * or when any component or loader has failed.
    */
-  forward(): void {
-    this._history.goForward();
+  prefetch(
+      rawLocation: RouteLocation<M>,
+      opts: PrefetchOptions = {}): Promise<void> {
+    let route: Route;
+    try {
+      route = Object.freeze(
+          this.matchRawLocation(rawLocation as RawLocation | string));
+    } catch (e: any) {
+      return Promise.reject(e);
+    }
+
+    const pending: Promise<unknown>[] = [];
+    for (const r of route.matched) {
+      for (const outlet of asyncOutlets(r)) {
+        if (this.asyncView(r.id, outlet) == undefined) {
+          pending.push(this.loadAsyncView(r, outlet));
+        }
+      }
+    }
+    if (opts.data === true) {
+      pending.push(this.prefetchRouteData(route));
+    }
+    return Promise.all(pending).then(() => undefined);
   }
 
   /**
    * Generate route URL from the the raw location.
-   * @param {RawLocation} rawLocation raw location object.
+   * @param {RawLocation} location raw location object.
    * @throws when the route is not found or the route params are not valid.
    * @return {string}
    */
-  routeURL(rawLocation: RawLocation): string {
+  routeURL(location: NamedLocation<M>): string {
+    const rawLocation = location as RawLocation;
     if (tc.isNullOrUndefined(rawLocation)) {
       throw new Error('invalid rawLocation');
     }
@@ -415,7 +809,8 @@ export class Router {
     }
 
     // Resolve query params
-    url = fullURL(url, rawLocation.query, rawLocation.hash);
+    url = fullURL(url, rawLocation.query, rawLocation.hash,
+        this._stringifyQuery);
 
     // Basename
     if (this._basename.length > 0) {
@@ -425,6 +820,139 @@ export class Router {
     return url;
   }
 
+  /**
+   * Resolve the route of the raw location without navigating,
+   * i.e. the history is not changed, and no listeners are notified.
+   * The route redirect is not resolved.
+   * @param {RawLocation|string} rawLocation raw path or location object.
+   * @return {RouteResolution}
+   */
+  resolve(rawLocation: RouteLocation<M>): RouteResolution<M> {
+    try {
+      const route = this.matchRawLocation(rawLocation as RawLocation | string);
+      let href = this._history.createHref({
+        pathname: route.path,
+        search: fullURL('', route.query, '', this._stringifyQuery),
+        hash: route.hash.length > 0 ? `#${route.hash}` : '',
+      });
+      // The in-memory history does not support the basename
+      if (this._mode == HISTORY_MODE.MEMORY && this._basename.length > 0) {
+        href = joinPath(this._basename, href);
+      }
+      return {
+        resolved: true,
+        route: Object.freeze(route) as TypedRoute<M>,
+        href,
+        error: null,
+      };
+    } catch (e: any) {
+      return {
+        resolved: false,
+        route: null,
+        href: null,
+        error: e,
+      };
+    }
+  }
+
+  /**
+   * Add a new route, or a nested route of the named parent route.
+   * The route with the same name is replaced.
+   * The current route is re-resolved if affected by the change.
+   * @param {string|RouteConfigPrefab} parent Name of the parent route,
+   * or the route prefab.
+   * @param {RouteConfigPrefab?} prefab Route prefab, when the parent
+   * route name is given.
+   * @throws when the parent route is not found or the prefab is invalid.
+   * @return {function} Remove route function.
+   */
+  addRoute(
+      parent: string | RouteConfigPrefab<object>,
+      prefab?: RouteConfigPrefab<object>): () => void {
+    let parentRoute: RouteConfig | null = null;
+    if (tc.isString(parent)) {
+      parentRoute = this.findRouteByName(parent as string, this._routes);
+      if (parentRoute == null) {
+        throw new Error(`no matching route found for name:${parent}`);
+      }
+    } else {
+      prefab = parent as RouteConfigPrefab<object>;
+    }
+
+    let route: RouteConfig;
+    try {
+      route = this.preprocessRoute(
+          prefab as RouteConfigPrefab<object>, parentRoute);
+    } catch (e: any) {
+      throw new Error(`invalid route, ${e.toString()}`);
+    }
+
+    // Replace the route of the same name
+    if (route.name != undefined) {
+      const existing = this.findRouteByName(route.name, this._routes);
+      if (existing != null) {
+        this.detachRoute(existing);
+      }
+    }
+
+    // Insert before the any URL route
+    const routes = parentRoute != null ? parentRoute.children : this._routes;
+    const wildcard = routes.findIndex((r) => r.path == '*');
+    routes.splice(wildcard >= 0 ? wildcard : routes.length, 0, route);
+    if (parentRoute != null && parentRoute.children.length == 1) {
+      this.compileRoute(parentRoute);
+    }
+    this._rankedRoutes = null;
+
+    this.refreshCurrentRoute();
+    return (): void => {
+      if (this.getRoutes().includes(route)) {
+        this.detachRoute(route);
+        this.refreshCurrentRoute();
+      }
+    };
+  }
+
+  /**
+   * Remove the named route, including its nested routes.
+   * The current route is re-resolved if affected by the change.
+   * @param {string} name Name of the route.
+   * @throws when the route is not found.
+   */
+  removeRoute(name: string): void {
+    const route = this.findRouteByName(name, this._routes);
+    if (route == null) {
+      throw new Error(`no matching route found for name:${name}`);
+    }
+    this.detachRoute(route);
+    this.refreshCurrentRoute();
+  }
+
+  /**
+   * Named route exists predicate.
+   * @param {string} name Name of the route.
+   * @return {boolean}
+   */
+  hasRoute(name: string): boolean {
+    return this.findRouteByName(name, this._routes) != null;
+  }
+
+  /**
+   * Get flattened collection of all routes, including nested routes,
+   * parent routes first.
+   * @return {RouteConfig[]}
+   */
+  getRoutes(): RouteConfig[] {
+    const flatten = (routes: RouteConfig[]): RouteConfig[] => {
+      const result: RouteConfig[] = [];
+      for (const route of routes) {
+        result.push(route, ...flatten(route.children));
+      }
+      return result;
+    };
+    return flatten(this._routes);
+  }
+
   /**
    * Convert routes prefabs into route configs, recursively.
    * @param {RouteConfig[]} routes Routes reference collection.
@@ -433,148 +961,651 @@ export class Router {
    */
   private preprocessRoutes(
       routes: RouteConfig[],
-      prefabs: RouteConfigPrefab[],
+      prefabs: readonly RouteConfigPrefab<object>[],
       parent: RouteConfig | null = null): void {
     for (let i = 0; i < prefabs.length; i++) {
-      let route: RouteConfig;
       try {
-        prefabs[i].children = prefabs[i].children || [];
-        route = createRouteConfig(prefabs[i]);
-        route.parent = null;
-        routes.push(route);
+        routes.push(this.preprocessRoute(prefabs[i], parent));
       } catch (e: any) {
         console.error(new Error(`invalid route, ${e.toString()}`));
-        continue;
       }
+    }
+  }
 
-      // Append parent path prefix
-      if (parent != null) {
-        route.parent = parent;
-        if (route.path.length > 0) {
-          route.path = joinPath(parent.path, route.path);
-        } else {
-          route.path = parent.path;
-        }
+  /**
+   * Convert route prefab into route config, including its children.
+   * @param {RouteConfigPrefab} prefab Route prefab.
+   * @param {RouteConfig|null} parent Parent route.
+   * @throws when the route prefab is invalid.
+   * @return {RouteConfig}
+   */
+  private preprocessRoute(
+      prefab: RouteConfigPrefab<object>,
+      parent: RouteConfig | null): RouteConfig {
+    prefab.children = prefab.children || [];
+    const route = createRouteConfig(prefab);
+    route.parent = null;
+
+    /**
+     * Append parent path prefix.
+     * @param {string} base Parent path.
+     * @param {string} path Route path.
+     * @return {string}
+     */
+    const prefixPath = (base: string, path: string): string => {
+      if (parent == null) {
+        return path;
+      }
+      return path.length > 0 ? joinPath(base, path) : base;
+    };
+    if (parent != null) {
+      route.parent = parent;
+      route.path = prefixPath(parent.path, route.path);
+      // Inherit the parent matching options
+      if (tc.isNullOrUndefined(route.strict)) {
+        route.strict = parent.strict;
+      }
+      if (tc.isNullOrUndefined(route.sensitive)) {
+        route.sensitive = parent.sensitive;
       }
+      // Inherit the parent param types, the own param types win
+      route.paramParsers = {...parent.paramParsers, ...route.paramParsers};
+    }
 
-      // Generate the regex matcher and params keys
-      route.paramKeys = [];
-      // Any URL
-      if (route.path == '*') {
-        route.matcher = /.*/i;
-        route.generator = (): string => '/';
-      // Regex based
-      } else {
-        route.matcher = pathToRegexp(
-            route.path,
-            route.paramKeys as pathToRegexp.Key[], {
-              end: (prefabs[i].children as RouteConfigPrefab[]).length == 0,
-            });
-        route.generator = pathToRegexp.compile(route.path);
-      }
-
-      // Process children
-      if ((prefabs[i].children as RouteConfigPrefab[]).length > 0) {
-        this.preprocessRoutes(
-            route.children,
-            prefabs[i].children as RouteConfigPrefab[],
-            route
-        );
+    // Alias paths under the parent path and all its aliases
+    const parentPaths = parent != null
+      ? [parent.path, ...parent.aliases.map((a) => a.path)]
+      : [''];
+    for (const base of parentPaths) {
+      for (const path of [prefab.path, ...route.alias]) {
+        const aliasPath = prefixPath(base, path);
+        if (aliasPath != route.path
+          && route.aliases.some((a) => a.path == aliasPath) == false) {
+          route.aliases.push({
+            path: aliasPath,
+            paramKeys: [],
+            matcher: /^\s$/,
+            score: [],
+          });
+        }
       }
     }
+
+    // Process children
+    if (prefab.children.length > 0) {
+      this.preprocessRoutes(route.children, prefab.children, route);
+    }
+
+    this.compileRoute(route);
+    return route;
   }
 
   /**
-   * On history change event.
-   * @param {HistoryLocation} location
-   * @param {HISTORY_ACTION} action
+   * Generate the route regex matcher, URL generator and params keys,
+   * and the alias matchers.
+   * The route with children matches the path prefix.
+   * @param {RouteConfig} route Route config.
    */
-  private onHistoryChange(
-      location: HistoryLocation,
-      action: HISTORY_ACTION): void {
-    // Resolve route when the history is popped.
-    if (action == HISTORY_ACTION.POP) {
-      this.push(historyFullURL(location));
+  private compileRoute(route: RouteConfig): void {
+    const options = {
+      end: route.children.length == 0,
+      strict: tc.isNullOrUndefined(route.strict)
+        ? this._strict
+        : route.strict === true,
+      sensitive: tc.isNullOrUndefined(route.sensitive)
+        ? this._sensitive
+        : route.sensitive === true,
+    };
+    route.paramKeys = [];
+    // Any URL
+    if (route.path == '*') {
+      route.matcher = /.*/;
+      route.generator = (): string => '/';
+    // Regex based
+    } else {
+      route.matcher = pathToRegexp(
+          route.path,
+          route.paramKeys as pathToRegexp.Key[],
+          options);
+      const generator = pathToRegexp.compile(route.path);
+      route.generator = (params): string => {
+        return generator(serializeParams(route, params));
+      };
+    }
+    route.score = routeScore(route.path);
+
+    for (const alias of route.aliases) {
+      alias.paramKeys = [];
+      alias.matcher = pathToRegexp(
+          alias.path,
+          alias.paramKeys as pathToRegexp.Key[],
+          options);
+      alias.score = routeScore(alias.path);
     }
   }
 
   /**
-   * Convert raw Location to Location.
-   * @param {RawLocation | string} rawLocation raw path or location object.
-   * @param {boolean} replace history replace flag.
-   * @throws when the rawLocation is invalid or when the path is invalid.
-   * @return {Location}
+   * Detach the route from the routes tree, and clean up
+   * the resources related to the route and its nested routes.
+   * @param {RouteConfig} route Route config.
    */
-  private rawLocationToLocation(
-      rawLocation: RawLocation | string,
-      replace: boolean): Location {
-    if (tc.isNullOrUndefined(rawLocation)) {
-      throw new Error('invalid rawLocation');
+  private detachRoute(route: RouteConfig): void {
+    const routes = route.parent != null ? route.parent.children : this._routes;
+    const index = routes.indexOf(route);
+    if (index >= 0) {
+      routes.splice(index, 1);
     }
-    if (tc.isString(rawLocation)) {
-      rawLocation = {
-        path: rawLocation,
-      } as RawLocation;
+    if (route.parent != null && route.parent.children.length == 0) {
+      this.compileRoute(route.parent);
     }
-    rawLocation.replace = replace;
-
-    let location;
-    try {
-      location = createLocation(rawLocation as RawLocation);
-    } catch (e: any) {
-      throw e;
+    this._rankedRoutes = null;
+
+    const detached = [route];
+    while (detached.length > 0) {
+      const r = detached.pop() as RouteConfig;
+      this._asyncViews.delete(r.id);
+      this._asyncLoading.delete(r.id);
+      this._leaveGuards.delete(r.id);
+      this._updateGuards.delete(r.id);
+      detached.push(...r.children);
     }
-    return location;
   }
 
   /**
-   * Resolve route from the requested location.
-   * @param {Location} location
-   * @param {function?} onComplete On complete request callback.
-   * @param {function?} onAbort On abort request callback.
+   * Re-resolve the current route if the routes change
+   * affects the current route matching.
    */
-  private resolveRoute(
-      location: Location,
-      onComplete?: () => void,
-      onAbort?: () => void): void {
-    let matches: Record[] = [];
-
-    if (this._basename.length > 0) {
-      location.path = trimPrefix(location.path, this._basename);
+  private refreshCurrentRoute(): void {
+    if (this._currentRoute == null) {
+      return;
+    }
+    const matches: Record[] = [];
+    this.matchPath(this._currentRoute.path, matches);
+    const current = this._currentRoute.matched.map((r) => r.id);
+    if (matches.length == current.length
+    && matches.every((r, i) => r.id === current[i])) {
+      return;
     }
+    this.navigate(
+        this._currentRoute.fullPath, true, undefined, undefined, true);
+  }
 
-    // Resolve named route
-    if (location.name) {
-      let match = this.findRouteByName(location.name, this._routes);
-      if (match == null) {
-        if (onAbort != null) {
-          onAbort();
+  /**
+   * On history change event.
+   * @param {HistoryLocation} location
+   * @param {HISTORY_ACTION} action
+   * @param {boolean} initial The initial navigation of the started router.
+   */
+  private onHistoryChange(
+      location: HistoryLocation,
+      action: HISTORY_ACTION,
+      initial = false): void {
+    // Save the scroll position of the left history entry
+    const key = this.historyKey(location);
+    if (key != this._historyKey) {
+      if (this._scrollBehavior != null && typeof window !== 'undefined') {
+        this.saveScrollPosition(this._historyKey, getScrollPosition());
+      }
+      this._historyKey = key;
+    }
+
+    // History entry index, the unknown popped entry is considered
+    // as the previous entry
+    const previousIndex = this._historyIndex;
+    let popDelta = 0;
+    if (action == HISTORY_ACTION.PUSH) {
+      this._historyIndex = previousIndex + 1;
+    } else if (action == HISTORY_ACTION.POP) {
+      const index = this.historyIndex(location);
+      this._historyIndex = index != undefined ? index : previousIndex - 1;
+      popDelta = index != undefined && !initial ? index - previousIndex : 0;
+    }
+
+    // The history pop reverting the aborted navigation is not resolved
+    const reverted = this._revertedIndex;
+    this._revertedIndex = null;
+    if (action == HISTORY_ACTION.POP && reverted === this._historyIndex) {
+      return;
+    }
+
+    // Resolve route when the history is popped.
+    if (action == HISTORY_ACTION.POP) {
+      let direction = NAVIGATION_DIRECTION.REPLACE;
+      if (initial) {
+        direction = NAVIGATION_DIRECTION.INITIAL;
+      } else if (this._historyIndex < previousIndex) {
+        direction = NAVIGATION_DIRECTION.BACK;
+      } else if (this._historyIndex > previousIndex) {
+        direction = NAVIGATION_DIRECTION.FORWARD;
+      }
+      const resolvers = this._popResolvers;
+      this._popResolvers = [];
+      this.navigate(historyFullURL(location), false, undefined,
+          undefined, false, direction, popDelta).then((result) => {
+        for (const resolve of resolvers) {
+          resolve(result);
         }
-        this.notifyOnError(
-            new Error(`no matching route found for name:${location.name}`)
-        );
-        return;
+      });
+    }
+  }
+
+  /**
+   * Save the scroll position of the history entry, the saved positions
+   * are limited to SCROLL_POSITIONS_LIMIT, the least recently saved
+   * position is evicted.
+   * @param {string} key History entry key.
+   * @param {ScrollPosition} position Scroll position.
+   */
+  private saveScrollPosition(key: string, position: ScrollPosition): void {
+    this._scrollPositions.delete(key);
+    this._scrollPositions.set(key, position);
+    if (this._scrollPositions.size > SCROLL_POSITIONS_LIMIT) {
+      const oldest = this._scrollPositions.keys().next().value as string;
+      this._scrollPositions.delete(oldest);
+    }
+  }
+
+  /**
+   * Get the history entry index of the location, kept in the history
+   * state, or in the browser history state for the hash history.
+   * @param {HistoryLocation} location history location.
+   * @return {number|undefined}
+   */
+  private historyIndex(location: HistoryLocation): number | undefined {
+    let state = location.state as {index?: number} | null | undefined;
+    if (this._mode == HISTORY_MODE.HASH) {
+      state = typeof window !== 'undefined' ? window.history.state : null;
+    }
+    if (state != null && tc.isNumber(state.index)) {
+      return state.index;
+    }
+    return undefined;
+  }
+
+  /**
+   * Keep the index of the unindexed current history entry in its
+   * history state, merged with the existing state.
+   */
+  private indexHistory(): void {
+    const location = this._history.location;
+    if (this.historyIndex(location) != undefined) {
+      return;
+    }
+    const index = this._historyIndex;
+    // The hash history does not support state
+    if (this._mode == HISTORY_MODE.HASH) {
+      if (typeof window !== 'undefined') {
+        window.history.replaceState({...window.history.state, index}, '');
       }
+      return;
+    }
+    const state = tc.isObject(location.state)
+      ? location.state as {[key: string]: unknown} : {};
+    this._history.replace(historyFullURL(location), {...state, index});
+  }
 
-      // Try to generate the route URL with the given params
-      // to validate the route and to get the params
-      try {
-        location.path = match.generator(location.params);
-      } catch (e: any) {
-        if (onAbort != null) {
-          onAbort();
+  /**
+   * Push or replace the history entry, with the history entry index
+   * kept in the history state.
+   * @param {string} path Full URL.
+   * @param {boolean} replace Replace the current history entry.
+   */
+  private updateHistory(path: string, replace: boolean): void {
+    const index = replace ? this._historyIndex : this._historyIndex + 1;
+    if (this._mode == HISTORY_MODE.HASH) {
+      if (replace) {
+        this._history.replace(path);
+      } else {
+        this._history.push(path);
+      }
+      // The hash history does not support state
+      if (typeof window !== 'undefined') {
+        window.history.replaceState({...window.history.state, index}, '');
+      }
+      return;
+    }
+    if (replace) {
+      this._history.replace(path, {index});
+    } else {
+      this._history.push(path, {index});
+    }
+  }
+
+  /**
+   * Revert the history popped by the aborted navigation,
+   * the history is moved back to the previous history entry if the
+   * popped entries are known, otherwise the current route is pushed.
+   * @param {Navigation} navigation Aborted navigation.
+   */
+  private revertHistory(navigation: Navigation): void {
+    if (navigation.popDelta != null && navigation.popDelta != 0) {
+      this._revertedIndex = this._historyIndex - navigation.popDelta;
+      this._history.go(-navigation.popDelta);
+      return;
+    }
+    if (this._currentRoute != null
+      && this.historyURL() != this._currentRoute.fullPath) {
+      this.updateHistory(this._currentRoute.fullPath, false);
+    }
+  }
+
+  /**
+   * Get the full URL of the current history location, normalized
+   * by the query parser and stringifier to be compared with the route.
+   * @return {string}
+   */
+  private historyURL(): string {
+    const url = historyFullURL(this._history.location);
+    try {
+      const location = createLocation({path: url}, this._parseQuery);
+      return fullURL(location.path, location.query, location.hash,
+          this._stringifyQuery);
+    } catch (e: any) {
+      return url;
+    }
+  }
+
+  /**
+   * Get the unique key of the history location,
+   * the hash history does not support location keys.
+   * @param {HistoryLocation} location history location.
+   * @return {string}
+   */
+  private historyKey(location: HistoryLocation): string {
+    return location.key || historyFullURL(location);
+  }
+
+  /**
+   * Resolve the scroll behavior of the confirmed navigation.
+   * The scroll behavior is called after the lazy loaded components
+   * of the route are settled and the views are rendered, and it is
+   * ignored if the route has been changed in the meantime.
+   * @param {Route|null} from Previous route.
+   * @param {Route} to Confirmed route.
+   */
+  private resolveScroll(from: Route | null, to: Route): void {
+    const behavior = this._scrollBehavior;
+    if (behavior == null || typeof window === 'undefined') {
+      return;
+    }
+    const current = this._currentRoute;
+    const savedPosition = this._history.action == HISTORY_ACTION.POP
+      ? this._scrollPositions.get(this._historyKey) || null
+      : null;
+
+    // Wait for the deferred lazy loaded components,
+    // and for the views to be rendered
+    const loading: Promise<unknown>[] = [];
+    for (const r of to.matched) {
+      for (const outlet in r.pending) {
+        if (r.pending.hasOwnProperty(outlet)) {
+          loading.push(r.pending[outlet].catch(() => undefined));
         }
-        this.notifyOnError(
-            new Error(`invalid route parameters, :${e.toString()}`)
-        );
+      }
+    }
+    Promise.all(loading)
+        .then(() => new Promise((resolve) => setTimeout(resolve)))
+        .then(() => behavior(to, from, savedPosition))
+        .then((target) => {
+          if (this._currentRoute !== current || tc.not.isObject(target)) {
+            return;
+          }
+          scrollToTarget(target as ScrollTarget);
+        })
+        .catch((e) => {
+          this.notifyOnError(new Error(`scroll behavior error, ${e}`));
+        });
+  }
+
+  /**
+   * Go to the history position and wait for the navigation
+   * triggered by the history change. The navigation is aborted
+   * when the in-memory history could not go to the position, or when
+   * the history has not changed within the HISTORY_POP_TIMEOUT.
+   * @param {number} n number of steps to forward
+   * or backwards (negative number).
+   * @return {Promise<NavigationResult>}
+   */
+  private historyPop(n: number): Promise<NavigationResult> {
+    return new Promise((resolve): void => {
+      const abort = (): void => resolve(createNavigationResult(
+          NAVIGATION_RESULT.ABORTED,
+          this._currentRoute != null
+            ? Object.freeze(cloneRoute(this._currentRoute))
+            : null
+      ));
+      if (this._history.canGo != undefined && !this._history.canGo(n)) {
+        abort();
         return;
       }
 
-      // Generate the route records
-      matches.push(createRouteRecord(match, location.params));
-      while (match.parent != null) {
-        match = match.parent;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const resolver = (result: NavigationResult): void => {
+        clearTimeout(timer as ReturnType<typeof setTimeout>);
+        resolve(result);
+      };
+      // The resolver is taken when the history has changed
+      timer = setTimeout((): void => {
+        const index = this._popResolvers.indexOf(resolver);
+        if (index != -1) {
+          this._popResolvers.splice(index, 1);
+          abort();
+        }
+      }, HISTORY_POP_TIMEOUT);
+      this._popResolvers.push(resolver);
+      this._history.go(n);
+    });
+  }
+
+  /**
+   * Create a new navigation and resolve the requested location.
+   * @param {RawLocation|string} rawLocation raw path or location object.
+   * @param {boolean} replace history replace flag.
+   * @param {function?} onComplete On complete callback function.
+   * @param {function?} onAbort On abort callback function.
+   * @param {boolean} force Resolve the navigation even if the location
+   * equals the current route.
+   * @param {NAVIGATION_DIRECTION|null} direction Navigation direction,
+   * resolved by the replace flag if not set.
+   * @param {number|null} popDelta Number of the popped history entries,
+   * null if the navigation is not triggered by the history.
+   * @return {Promise<NavigationResult>}
+   */
+  private navigate(
+      rawLocation: RawLocation | string,
+      replace: boolean,
+      onComplete?: navigationCallback,
+      onAbort?: navigationCallback,
+      force = false,
+      direction: NAVIGATION_DIRECTION | null = null,
+      popDelta: number | null = null
+  ): Promise<NavigationResult> {
+    return new Promise((resolve): void => {
+      // Cancel the superseded navigation
+      if (this._navigation != null) {
+        const route = this._pendingRoute;
+        this._pendingRoute = null;
+        this.settleNavigation(this._navigation,
+            NAVIGATION_RESULT.CANCELLED, route);
+      }
+
+      this._navigation = {
+        onComplete: tc.isFunction(onComplete) ? onComplete : undefined,
+        onAbort: tc.isFunction(onAbort) ? onAbort : undefined,
+        resolve,
+        direction: direction || (replace
+          ? NAVIGATION_DIRECTION.REPLACE
+          : NAVIGATION_DIRECTION.FORWARD),
+        popDelta,
+        redirected: false,
+        redirects: [],
+        force,
+        settled: false,
+        guards: [],
+      };
+      this.resolveLocation(rawLocation, replace, this._navigation);
+    });
+  }
+
+  /**
+   * Resolve the raw location within the given navigation.
+   * @param {RawLocation|string} rawLocation raw path or location object.
+   * @param {boolean} replace history replace flag.
+   * @param {Navigation} navigation Navigation in progress.
+   */
+  private resolveLocation(
+      rawLocation: RawLocation | string,
+      replace: boolean,
+      navigation: Navigation): void {
+    let location;
+    try {
+      location = this.rawLocationToLocation(rawLocation, replace);
+    } catch (e: any) {
+      this.failNavigation(navigation,
+          new Error(`invalid location, ${e.toString()}`));
+      return;
+    }
+
+    this.resolveRoute(location, navigation);
+  }
+
+  /**
+   * Settle the navigation, execute the navigation callback
+   * and resolve the navigation promise.
+   * The navigation could be settled only once.
+   * @param {Navigation} navigation Navigation in progress.
+   * @param {NAVIGATION_RESULT} type Navigation result type.
+   * @param {Route|null} route Resolved route.
+   * @param {Error|null} error Navigation error.
+   */
+  private settleNavigation(
+      navigation: Navigation,
+      type: NAVIGATION_RESULT,
+      route: Route | null = null,
+      error: Error | null = null): void {
+    if (navigation.settled) {
+      return;
+    }
+    navigation.settled = true;
+    if (this._navigation === navigation) {
+      this._navigation = null;
+    }
+
+    const result = createNavigationResult(
+        type,
+        route != null ? Object.freeze(cloneRoute(route)) : null,
+        error
+    );
+    if (type == NAVIGATION_RESULT.ABORTED
+    || type == NAVIGATION_RESULT.CANCELLED
+    || type == NAVIGATION_RESULT.FAILED) {
+      if (navigation.onAbort != null) {
+        navigation.onAbort(result);
+      }
+    } else if (navigation.onComplete != null) {
+      navigation.onComplete(result);
+    }
+    navigation.resolve(result);
+    this.notifyOnNavigationSettled(result);
+  }
+
+  /**
+   * Settle the failed navigation and notify all onError listeners.
+   * @param {Navigation} navigation Navigation in progress.
+   * @param {Error} error Navigation error.
+   * @param {Route|null} route Resolved route.
+   */
+  private failNavigation(
+      navigation: Navigation,
+      error: Error,
+      route: Route | null = null): void {
+    if (navigation.settled) {
+      return;
+    }
+    this.settleNavigation(navigation, NAVIGATION_RESULT.FAILED, route, error);
+    this.notifyOnError(error);
+  }
+
+  /**
+   * Create the route of the raw location, without side effects.
+   * @param {RawLocation|string} rawLocation raw path or location object.
+   * @throws when the raw location is invalid or no route is matching.
+   * @return {Route}
+   */
+  private matchRawLocation(rawLocation: RawLocation | string): Route {
+    const location = this.rawLocationToLocation(
+        tc.isObject(rawLocation)
+          ? {...rawLocation as RawLocation}
+          : rawLocation,
+        false);
+    return createRoute(
+        location,
+        this.matchLocation(location),
+        this._stringifyQuery,
+        this._metaMerge);
+  }
+
+  /**
+   * Convert raw Location to Location.
+   * @param {RawLocation | string} rawLocation raw path or location object.
+   * @param {boolean} replace history replace flag.
+   * @throws when the rawLocation is invalid or when the path is invalid.
+   * @return {Location}
+   */
+  private rawLocationToLocation(
+      rawLocation: RawLocation | string,
+      replace: boolean): Location {
+    if (tc.isNullOrUndefined(rawLocation)) {
+      throw new Error('invalid rawLocation');
+    }
+    if (tc.isString(rawLocation)) {
+      rawLocation = {
+        path: rawLocation,
+      } as RawLocation;
+    }
+    rawLocation.replace = replace;
+
+    let location;
+    try {
+      location = createLocation(rawLocation as RawLocation, this._parseQuery);
+    } catch (e: any) {
+      throw e;
+    }
+    return location;
+  }
+
+  /**
+   * Match the route records of the location, without any side effects.
+   * @param {Location} location
+   * @throws when no matching route is found or the route params
+   * are not valid.
+   * @return {Record[]} Matched route records (top-bottom).
+   */
+  private matchLocation(location: Location): Record[] {
+    let matches: Record[] = [];
+
+    if (this._basename.length > 0) {
+      location.path = trimPrefix(location.path, this._basename);
+    }
+
+    // Resolve named route
+    if (location.name) {
+      let match = this.findRouteByName(location.name, this._routes);
+      if (match == null) {
+        throw new Error(`no matching route found for name:${location.name}`);
+      }
+
+      // Try to generate the route URL and the route records
+      // with the given params to validate the route and to get the params
+      try {
+        location.path = match.generator(location.params);
         matches.push(createRouteRecord(match, location.params));
+        while (match.parent != null) {
+          match = match.parent;
+          matches.push(createRouteRecord(match, location.params));
+        }
+      } catch (e: any) {
+        throw new Error(`invalid route parameters, :${e.toString()}`);
       }
       if (matches.length > 1) {
         matches = matches.reverse();
@@ -583,33 +1614,73 @@ export class Router {
     // Resolved route by path
     // and generate the route records
     } else {
-      if (this.matchRoute(location.path, this._routes, matches) == false) {
-        if (onAbort != null) {
-          onAbort();
-        }
-        this.notifyOnError(
-            new Error(`no matching route found for path:${location.path}`)
-        );
-        return;
+      if (this.matchPath(location.path, matches) == false) {
+        throw new Error(`no matching route found for path:${location.path}`);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Resolve route from the requested location.
+   * @param {Location} location
+   * @param {Navigation} navigation Navigation in progress.
+   */
+  private resolveRoute(location: Location, navigation: Navigation): void {
+    // Redirect to the canonical path, the non-canonical URL
+    // of the navigation triggered by the history is replaced
+    if (tc.isNullOrUndefined(location.name)) {
+      const path = this.canonicalPath(location.path);
+      if (path != location.path) {
+        navigation.redirected = true;
+        navigation.redirects.push(fullURL(location.path, location.query,
+            location.hash, this._stringifyQuery));
+        location.path = path;
       }
     }
 
+    let matches: Record[];
+    try {
+      matches = this.matchLocation(location);
+    } catch (e: any) {
+      this.failNavigation(navigation, e);
+      return;
+    }
+
     // Create new pending route
-    this._pendingRoute = createRoute(location, matches);
+    this._pendingRoute = createRoute(
+        location, matches, this._stringifyQuery, this._metaMerge);
+
+    // Redirect loop
+    if (navigation.redirects.length > 0) {
+      const fullPath = this._pendingRoute.fullPath;
+      if (navigation.redirects.indexOf(fullPath) >= 0) {
+        const route = this._pendingRoute;
+        this._pendingRoute = null;
+        this.failNavigation(navigation, new Error(
+            'redirect loop detected, '
+            + `${[...navigation.redirects, fullPath].join(' -> ')}`
+        ), route);
+        return;
+      }
+      this._pendingRoute.redirectedFrom = navigation.redirects[0];
+    }
+    this._pendingRoute.direction = navigation.direction;
 
     // Resolve redirect
     if (this._pendingRoute.redirect != null) {
-      this.resolveRedirect(this._pendingRoute.redirect, onComplete, onAbort);
+      this.resolveRedirect(this._pendingRoute.redirect, navigation);
       return;
     }
 
-    // Skip the same location
-    if (this._currentRoute
-    && this._pendingRoute.fullPath == this._currentRoute.fullPath) {
+    // Skip the same location, unless its lazy loaded component has failed
+    if (this._currentRoute && navigation.force == false
+    && this._pendingRoute.fullPath == this._currentRoute.fullPath
+    && this.hasFailedAsyncView(this._currentRoute) == false) {
       this._pendingRoute = null;
-      if (onComplete != null) {
-        onComplete();
-      }
+      this.settleNavigation(navigation,
+          NAVIGATION_RESULT.DUPLICATED, this._currentRoute);
       return;
     }
 
@@ -623,7 +1694,175 @@ export class Router {
     );
 
     // Resolve navigation guards
-    this.resolveNavigationGuard(0, onComplete, onAbort);
+    navigation.guards = this.collectNavigationGuards(
+        this._currentRoute,
+        this._pendingRoute
+    );
+    this.resolveNavigationGuard(0, navigation);
+  }
+
+  /**
+   * Get the canonical URL path, according to the trailing slash
+   * and lowercase router options. The basename is kept as it is.
+   * @param {string} path URL path.
+   * @return {string}
+   */
+  private canonicalPath(path: string): string {
+    const basename = path.slice(
+        0, path.length - trimPrefix(path, this._basename).length);
+    let base = path.slice(basename.length);
+    if (this._trailingSlash == TRAILING_SLASH.ADD
+      && hasSuffix(base, '/') == false) {
+      base = base + '/';
+    } else if (this._trailingSlash == TRAILING_SLASH.REMOVE) {
+      while (base.length > 1 && hasSuffix(base, '/')) {
+        base = base.slice(0, -1);
+      }
+    }
+    if (this._lowercase) {
+      base = this.lowercasePath(base);
+    }
+    return basename + base;
+  }
+
+  /**
+   * Lowercase the static segments of the URL path, the param values
+   * captured by the most specific matching route are kept.
+   * The path is lowercased as whole if no route matches.
+   * @param {string} path URL path, without the basename.
+   * @return {string}
+   */
+  private lowercasePath(path: string): string {
+    for (const ranked of this.rankedRoutes()) {
+      const route = ranked.alias || ranked.route;
+      const match = new RegExp(route.matcher.source, 'i').exec(path);
+      if (match == null || route.path == '*') {
+        continue;
+      }
+
+      // Rebuild the path from the route path tokens,
+      // the static tokens are lowercased
+      let canonical = '';
+      let param = 1;
+      for (const token of pathToRegexp.parse(route.path)) {
+        if (tc.isString(token)) {
+          canonical += (token as string).toLowerCase();
+          continue;
+        }
+        const value = match[param++];
+        if (value != undefined) {
+          canonical += (token as pathToRegexp.Key).prefix + value;
+        }
+      }
+      if (hasSuffix(path, '/') && !hasSuffix(canonical, '/')) {
+        canonical += '/';
+      }
+      if (canonical.toLowerCase() == path.toLowerCase()) {
+        return canonical;
+      }
+    }
+    return path.toLowerCase();
+  }
+
+  /**
+   * Match route by path, according to the route matching mode.
+   * @param {string} path Base path without query or hash.
+   * @param {Record[]} matches Matched routes.
+   * @return {boolean}
+   */
+  private matchPath(path: string, matches: Record[]): boolean {
+    if (this._matching == ROUTE_MATCHING.ORDERED) {
+      return this.matchRoute(path, this._routes, matches);
+    }
+    return this.matchRankedRoute(path, matches);
+  }
+
+  /**
+   * Match the most specific final route by path,
+   * and generate the route records of all its parents.
+   * @param {string} path Base path without query or hash.
+   * @param {Record[]} matches Matched routes.
+   * @return {boolean}
+   */
+  private matchRankedRoute(path: string, matches: Record[]): boolean {
+    for (const ranked of this.rankedRoutes()) {
+      const match = (ranked.alias || ranked.route).matcher.exec(path);
+      if (match == null) {
+        continue;
+      }
+      const records: Record[] = [];
+      try {
+        records.push(createRouteRecord(ranked.route, match, ranked.alias));
+      } catch (e: any) {
+        // Invalid param values
+        continue;
+      }
+      let r: RouteConfig | null = ranked.route.parent;
+      while (r != null) {
+        const parentMatch = this.execRoute(r, path);
+        if (parentMatch == null) {
+          break;
+        }
+        // Invalid param values
+        try {
+          records.unshift(
+              createRouteRecord(r, parentMatch.match, parentMatch.alias));
+        } catch (e: any) {
+          break;
+        }
+        r = r.parent;
+      }
+      if (r == null) {
+        matches.push(...records);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get the final route paths and aliases sorted from the most
+   * specific path, the declaration order is kept for the equal score.
+   * @return {RankedRoute[]}
+   */
+  private rankedRoutes(): RankedRoute[] {
+    if (this._rankedRoutes == null) {
+      const ranked: RankedRoute[] = [];
+      for (const route of this.getRoutes()) {
+        if (route.children.length > 0) {
+          continue;
+        }
+        ranked.push({route, alias: null, score: route.score});
+        for (const alias of route.aliases) {
+          ranked.push({route, alias, score: alias.score});
+        }
+      }
+      this._rankedRoutes = ranked
+          .sort((a, b) => compareRouteScore(a.score, b.score));
+    }
+    return this._rankedRoutes;
+  }
+
+  /**
+   * Match the path by the route path, or by any of the route aliases.
+   * @param {RouteConfig} route Route config.
+   * @param {string} path Base path without query or hash.
+   * @return {object|null} Regex exec output and the matching alias.
+   */
+  private execRoute(
+      route: RouteConfig,
+      path: string): {match: RegExpExecArray; alias: RouteAlias | null} | null {
+    const match = route.matcher.exec(path);
+    if (match != null) {
+      return {match, alias: null};
+    }
+    for (const alias of route.aliases) {
+      const aliasMatch = alias.matcher.exec(path);
+      if (aliasMatch != null) {
+        return {match: aliasMatch, alias};
+      }
+    }
+    return null;
   }
 
   /**
@@ -638,9 +1877,15 @@ export class Router {
       routes: RouteConfig[],
       matches: Record[]): boolean {
     for (let i = 0; i < routes.length; i++) {
-      const match = routes[i].matcher.exec(path);
-      if (match) {
-        matches.push(createRouteRecord(routes[i], match));
+      const result = this.execRoute(routes[i], path);
+      if (result) {
+        // Invalid param values
+        try {
+          matches.push(
+              createRouteRecord(routes[i], result.match, result.alias));
+        } catch (e: any) {
+          continue;
+        }
         // Final route
         if (routes[i].children.length == 0) {
           return true;
@@ -680,93 +1925,254 @@ export class Router {
   /**
    * Resolve pending route redirect.
    * @param {function|object|string} redirect Redirect resolver.
-   * @param {function?} onComplete On complete callback.
-   * @param {function?} onAbort On abort callback.
+   * @param {Navigation} navigation Navigation in progress.
    */
   private resolveRedirect(
       redirect: routeRedirect,
-      onComplete: undefined | (() => void),
-      onAbort: undefined | (() => void)): void {
+      navigation: Navigation): void {
     // Function
     if (tc.isFunction(redirect)) {
       redirect =
         (redirect as (to: Route) => string)(this._pendingRoute as Route);
     }
 
-    // External
+    // External, the in-memory history never touches the browser URL
     if (tc.isString(redirect) && hasPrefix(redirect as string, 'http')) {
+      const route = this._pendingRoute;
+      this._pendingRoute = null;
+      if (this._mode == HISTORY_MODE.MEMORY || typeof window === 'undefined') {
+        this.failNavigation(navigation, new Error(
+            `external redirect is not supported, "${redirect}"`), route);
+        return;
+      }
       window.location.replace(redirect as string);
+      this.settleNavigation(navigation, NAVIGATION_RESULT.REDIRECTED);
       return;
     }
 
     // URL or Route object
-    this._pendingRoute = null;
-    this.push(tc.isString(redirect)
+    this.redirectNavigation(tc.isString(redirect)
       ? redirect as string
       : redirect as RawLocation,
-    onComplete, onAbort);
+    navigation);
+  }
+
+  /**
+   * Redirect the navigation from the pending route to the raw location.
+   * The redirected route is kept in the redirect chain.
+   * @param {RawLocation|string} rawLocation raw path or location object.
+   * @param {Navigation} navigation Navigation in progress.
+   */
+  private redirectNavigation(
+      rawLocation: RawLocation | string,
+      navigation: Navigation): void {
+    const from = this._pendingRoute as Route;
+    this._pendingRoute = null;
+    navigation.redirected = true;
+    navigation.redirects.push(from.fullPath);
+    if (navigation.redirects.length > this._maxRedirects) {
+      this.failNavigation(navigation, new Error(
+          `maximum redirects exceeded (${this._maxRedirects}), `
+          + `${navigation.redirects.join(' -> ')}`
+      ), from);
+      return;
+    }
+    this.resolveLocation(rawLocation, false, navigation);
+  }
+
+  /**
+   * Collect the navigation guards of the navigation change:
+   * * leave guards of the route records being left, bottom-top.
+   * * global navigation guards.
+   * * update guards of the route records being reused
+   * with changed params, top-bottom.
+   * * enter guards of the newly entered route records, top-bottom.
+   * @param {Route|null} from Current route.
+   * @param {Route} to Pending route.
+   * @return {function[]}
+   */
+  private collectNavigationGuards(
+      from: Route | null,
+      to: Route): navigationGuardFunction[] {
+    const guards: navigationGuardFunction[] = [];
+    const previous = from != null ? from.matched : [];
+    const find = (records: Record[], id: symbol): Record | undefined => {
+      return records.find((r) => r.id === id);
+    };
+
+    // Leave
+    for (let i = previous.length - 1; i >= 0; i--) {
+      if (find(to.matched, previous[i].id) == undefined) {
+        guards.push(
+            ...previous[i].beforeLeave,
+            ...this.routeGuards(this._leaveGuards, previous[i].id)
+        );
+      }
+    }
+
+    // Global
+    guards.push(...this._navigationGuards.map((entry) => entry.guard));
+
+    // Update
+    for (const record of to.matched) {
+      const reused = find(previous, record.id);
+      if (reused != undefined
+      && JSON.stringify(reused.params) != JSON.stringify(record.params)) {
+        guards.push(
+            ...record.beforeUpdate,
+            ...this.routeGuards(this._updateGuards, record.id)
+        );
+      }
+    }
+
+    // Enter
+    for (const record of to.matched) {
+      if (find(previous, record.id) == undefined) {
+        guards.push(...record.beforeEnter);
+      }
+    }
+
+    return guards;
+  }
+
+  /**
+   * Get the registered route guards of the given route ID.
+   * @param {Map} collection Route guards collection.
+   * @param {symbol} id Route ID.
+   * @return {function[]}
+   */
+  private routeGuards(
+      collection: Map<symbol, NavigationGuard[]>,
+      id: symbol): navigationGuardFunction[] {
+    return (collection.get(id) || []).map((entry) => entry.guard);
+  }
+
+  /**
+   * Register the route guard of the given route ID.
+   * @param {Map} collection Route guards collection.
+   * @param {symbol} id Route ID.
+   * @param {function} guard Guard callback function.
+   * @return {function} Unregister guard function.
+   */
+  private registerRouteGuard(
+      collection: Map<symbol, NavigationGuard[]>,
+      id: symbol,
+      guard: navigationGuardFunction): () => void {
+    const key = Symbol();
+    const guards = collection.get(id) || [];
+    guards.push({
+      key,
+      guard,
+    });
+    collection.set(id, guards);
+    return (): void => {
+      const remaining = (collection.get(id) || [])
+          .filter((entry) => entry.key !== key);
+      if (remaining.length > 0) {
+        collection.set(id, remaining);
+      } else {
+        collection.delete(id);
+      }
+    };
   }
 
   /**
    * Resolve each navigation guard on the given index
    * It executes the navigation guard function, chained by calling of
-   * the next function.
+   * the next function, or by the value returned by the guard.
    * @param {number} index Index of the navigation guard, defaults to 0.
-   * @param {function?} onComplete On complete callback.
-   * @param {function?} onAbort On abort callback.
+   * @param {Navigation} navigation Navigation in progress.
    */
   private resolveNavigationGuard(
       index = 0,
-      onComplete: undefined | (() => void),
-      onAbort: undefined | (() => void)): void {
+      navigation: Navigation): void {
     // There are no other guards
     // finish the navigation change
-    if (index >= this._navigationGuards.length) {
-      this.finishNavigationChange(onComplete, onAbort);
+    if (index >= navigation.guards.length) {
+      this.finishNavigationChange(navigation);
       return;
     }
 
     // Abort the pending route
     const abort = (err: Error | null = null): void => {
+      const route = this._pendingRoute;
       this._pendingRoute = null;
-      if (onAbort) {
-        onAbort();
-      }
       if (err != null) {
-        this.notifyOnError(
-            new Error(`navigation guard error, ${err.toString()}`)
-        );
+        this.failNavigation(navigation, err, route);
+      } else {
+        this.settleNavigation(navigation, NAVIGATION_RESULT.ABORTED, route);
       }
       // Revert history if needed
-      if (this._currentRoute != null &&
-      (historyFullURL(this._history.location) != this._currentRoute.fullPath)) {
-        this._history.push(this._currentRoute.fullPath);
+      this.revertHistory(navigation);
+    };
+
+    // Each guard is resolved only once,
+    // by the first next call, returned value or timeout
+    const guard = navigation.guards[index];
+    let resolved = false;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const resolveNext = (next: navigationGuardNextAction): void => {
+      if (resolved || navigation.settled) {
+        return;
+      }
+      resolved = true;
+      if (timeout != null) {
+        clearTimeout(timeout);
+      }
+
+      // Continue to next guard
+      if (next == undefined || next === true) {
+        this.resolveNavigationGuard(++index, navigation);
+      // Cancel the route change
+      } else if (next === false) {
+        abort();
+      // Error
+      } else if (tc.isError(next)) {
+        abort(new Error(`navigation guard error, ${next.toString()}`));
+      // Go to different route
+      } else if (tc.isString(next) || tc.isObject(next)) {
+        this.redirectNavigation(next as string, navigation);
+      // Unexpected next
+      } else {
+        abort(new Error(
+            `navigation guard error, unexpected next(val) value.`));
       }
     };
 
+    // Guard timeout
+    if (this._guardTimeout > 0) {
+      timeout = setTimeout((): void => {
+        if (resolved || navigation.settled) {
+          return;
+        }
+        resolved = true;
+        abort(new Error(
+            `navigation guard timeout, guard "${guard.name || 'anonymous'}" `
+            + `has not resolved within ${this._guardTimeout}ms`));
+      }, this._guardTimeout);
+    }
+
     // Execute the navigation guard and wait for the next callback
-    this._navigationGuards[index].guard(
-        this._currentRoute,
-        this._pendingRoute,
-        (next: navigationGuardNextAction) => {
-          // Continue to next guard
-          if (next == undefined) {
-            this.resolveNavigationGuard(++index, onComplete, onAbort);
-          // Cancel the route change
-          } else if (next === false) {
-            abort();
-          // Error
-          } else if (tc.isError(next)) {
-            abort(next as Error);
-          // Go to different route
-          } else if (tc.isString(next) || tc.isObject(next)) {
-            this._pendingRoute = null;
-            this.push(next as string, onComplete, onAbort);
-          // Unexpected next
-          } else {
-            abort(new Error(`unexpected next(val) value.`));
-          }
-        });
+    // or for the returned value.
+    // The returned Promise is resolved by its value, even if undefined,
+    // the guard returning nothing waits for the next callback.
+    const toError = (e: unknown): Error => {
+      return tc.isError(e) ? e as Error : new Error(String(e));
+    };
+    let result: navigationGuardResult;
+    try {
+      result = guard(this._currentRoute, this._pendingRoute, resolveNext);
+    } catch (e: any) {
+      resolveNext(toError(e));
+      return;
+    }
+    if (tc.isPromise(result)) {
+      (result as Promise<navigationGuardNextAction>)
+          .then(resolveNext)
+          .catch((e) => resolveNext(toError(e)));
+    } else if (result !== undefined) {
+      resolveNext(result as navigationGuardNextAction);
+    }
   }
 
   /**
@@ -801,30 +2207,257 @@ export class Router {
     }
   }
 
+  /**
+   * Notify all onNavigationSettled listeners
+   * @param {NavigationResult} result Navigation result.
+   */
+  private notifyOnNavigationSettled(result: NavigationResult): void {
+    for (const callback of this._listeners.onNavigationSettled.values()) {
+      callback(result);
+    }
+  }
+
+  /**
+   * Get the loaded lazy loaded component of the route record outlet.
+   * @param {symbol} id Route record ID.
+   * @param {string} outlet Name of the view outlet.
+   * @return {function|undefined}
+   */
+  private asyncView(id: symbol, outlet: string): (() => object) | undefined {
+    const views = this._asyncViews.get(id);
+    return views != undefined ? views[outlet] : undefined;
+  }
+
+  /**
+   * Load the lazy loaded component of the route record outlet,
+   * the loaded component is kept in the async views.
+   * @param {Record} record Route record.
+   * @param {string} outlet Name of the view outlet.
+   * @return {Promise<void>}
+   */
+  private loadAsyncView(record: Record, outlet: string): Promise<void> {
+    const loadingViews = this._asyncLoading.get(record.id) || {};
+    if (loadingViews[outlet] != undefined) {
+      return loadingViews[outlet];
+    }
+
+    const component = record.components[outlet];
+    const lazy = record.lazy;
+    const load = (): Promise<componentModule> => isLazyComponent(component)
+      ? (component as LazyComponent).loader()
+      : component as Promise<componentModule>;
+
+    // Load the component within the timeout
+    const attempt = (): Promise<componentModule> => {
+      if (lazy.loadingTimeout == 0) {
+        return load();
+      }
+      return new Promise((resolve, reject): void => {
+        const timer = setTimeout(() => reject(new Error(
+            `timeout, the component has not been loaded within ${
+              lazy.loadingTimeout}ms`
+        )), lazy.loadingTimeout);
+        load().then(resolve, reject).finally(() => clearTimeout(timer));
+      });
+    };
+
+    // Retry the failed component with backoff
+    const retry = (n: number): Promise<componentModule> => {
+      return attempt().catch((e) => {
+        if (n >= lazy.retry) {
+          throw e;
+        }
+        return new Promise((resolve): void => {
+          setTimeout(resolve, lazy.retryDelay * Math.pow(2, n));
+        }).then(() => retry(n + 1));
+      });
+    };
+
+    const result = retry(0).then((m) => {
+      this._asyncViews.set(record.id, {
+        ...this._asyncViews.get(record.id),
+        [outlet]: m.default as () => object,
+      });
+    }).finally(() => {
+      delete loadingViews[outlet];
+    });
+    loadingViews[outlet] = result;
+    this._asyncLoading.set(record.id, loadingViews);
+    return result;
+  }
+
+  /**
+   * The lazy loaded component of any matched route record
+   * has failed to load, i.e. it is neither loaded nor loading.
+   * @param {Route} route Resolved route.
+   * @return {boolean}
+   */
+  private hasFailedAsyncView(route: Route): boolean {
+    return route.matched.some((r) => asyncOutlets(r).some((outlet) => {
+      const loadingViews = this._asyncLoading.get(r.id) || {};
+      return this.asyncView(r.id, outlet) == undefined
+        && loadingViews[outlet] == undefined;
+    }));
+  }
+
+  /**
+   * Set the loaded component of the route record outlet.
+   * @param {Record} record Route record.
+   * @param {string} outlet Name of the view outlet.
+   * @param {function} component Loaded component.
+   */
+  private resolveAsyncView(
+      record: Record,
+      outlet: string,
+      component: () => object): void {
+    record.components[outlet] = component;
+    if (outlet == DEFAULT_OUTLET) {
+      record.component = component;
+    }
+    if (record.pending != undefined) {
+      delete record.pending[outlet];
+      if (Object.keys(record.pending).length == 0) {
+        delete record.pending;
+      }
+    }
+  }
+
+  /**
+   * Load the lazy loaded component of the route record outlet, without
+   * blocking the navigation. The pending component is resolved
+   * by the router view, which renders the loading or error component.
+   * @param {Record} record Route record.
+   * @param {string} outlet Name of the view outlet.
+   * @return {Promise<object>}
+   */
+  private deferAsyncView(record: Record, outlet: string): Promise<object> {
+    const pending = this.loadAsyncView(record, outlet).then(() => {
+      const component = this.asyncView(record.id, outlet) as () => object;
+      // Resolve the current route record
+      if (this._currentRoute != null) {
+        for (const r of this._currentRoute.matched) {
+          if (r.id === record.id
+            && r.pending != undefined
+            && r.pending[outlet] === pending) {
+            this.resolveAsyncView(r, outlet, component);
+          }
+        }
+      }
+      return component;
+    }).catch((e) => {
+      this.notifyOnError(
+          new Error(`failed to load async error, ${e.toString()}`));
+      throw e;
+    });
+    // The failure is resolved by the router view
+    pending.catch(() => undefined);
+    return pending;
+  }
+
+  /**
+   * Resolve the route data loaders of all matched routes, the loader
+   * results are kept by the full URL of the route until they expire.
+   * @param {Route} route Resolved route.
+   * @return {Promise<unknown>}
+   */
+  private prefetchRouteData(route: Route): Promise<unknown> {
+    this.removeExpiredPrefetchedData();
+    let prefetched = this._prefetchedData.get(route.fullPath);
+    if (prefetched == undefined) {
+      prefetched = {
+        expires: Date.now() + this._prefetchExpiry,
+        data: new Map(),
+      };
+      this._prefetchedData.set(route.fullPath, prefetched);
+    }
+    const data = prefetched.data;
+    const pending: Promise<unknown>[] = [];
+    for (const r of route.matched) {
+      if (r.load == null) {
+        continue;
+      }
+      if (data.has(r.id) == false) {
+        const loaded = this.loadRouteData(r, route);
+        // Failed prefetch is not reused
+        loaded.catch(() => {
+          if (data.get(r.id) === loaded) {
+            data.delete(r.id);
+          }
+        });
+        data.set(r.id, loaded);
+      }
+      pending.push(data.get(r.id) as Promise<unknown>);
+    }
+    return Promise.all(pending);
+  }
+
+  /**
+   * Remove the expired prefetched route data.
+   */
+  private removeExpiredPrefetchedData(): void {
+    const now = Date.now();
+    for (const [fullPath, prefetched] of this._prefetchedData) {
+      if (prefetched.expires <= now) {
+        this._prefetchedData.delete(fullPath);
+      }
+    }
+  }
+
+  /**
+   * Resolve the route data loader of the route record.
+   * @param {Record} record Route record.
+   * @param {Route} route Resolved route.
+   * @return {Promise<unknown>}
+   */
+  private loadRouteData(record: Record, route: Route): Promise<unknown> {
+    const load = record.load as routeLoader;
+    return new Promise((resolve): void => {
+      resolve(load(route));
+    });
+  }
+
   /**
    * Update the current route and update the navigation history
    * to complete the route change.
-   * @param {function?} onComplete On complete callback.
-   * @param {function?} onAbort On abort callback.
+   * @param {Navigation} navigation Navigation in progress.
    */
-  private finishNavigationChange(
-      onComplete?: () => void,
-      onAbort?: () => void): void {
+  private finishNavigationChange(navigation: Navigation): void {
     if (this._pendingRoute == null) {
       throw new Error('navigation cannot be finished, missing pending route');
     }
-    const asyncPending: object[] = [];
+    const asyncPending: Promise<void>[] = [];
     for (const r of this._pendingRoute.matched) {
-      if (r.async == false) {
-        continue;
+      for (const outlet of asyncOutlets(r)) {
+        if (this.asyncView(r.id, outlet) != undefined) {
+          continue;
+        }
+        // Rendered by the router view in the loading state
+        if (r.lazy.loadingComponent != undefined
+          || r.lazy.errorComponent != undefined) {
+          r.pending = {...r.pending, [outlet]: this.deferAsyncView(r, outlet)};
+          continue;
+        }
+        asyncPending.push(this.loadAsyncView(r, outlet));
       }
-      if (this._asyncViews.has(r.id) == false) {
-        asyncPending.push(new Promise((resolve, reject): void => {
-          (r.component as Promise<componentModule>)
-              .then((m) => resolve({id: r.id, component: m.default}))
-              .catch((e) => reject(e));
-        }));
+    }
+
+    // Route data loaders, or the prefetched data of the same URL,
+    // the prefetched data is used once
+    const loading: Promise<void>[] = [];
+    const pendingRoute = Object.freeze(cloneRoute(this._pendingRoute));
+    this.removeExpiredPrefetchedData();
+    const prefetched = this._prefetchedData.get(pendingRoute.fullPath);
+    this._prefetchedData.delete(pendingRoute.fullPath);
+    for (const r of this._pendingRoute.matched) {
+      if (r.load == null) {
+        continue;
       }
+      const data = prefetched != undefined && prefetched.data.has(r.id)
+        ? prefetched.data.get(r.id) as Promise<unknown>
+        : this.loadRouteData(r, pendingRoute);
+      loading.push(data.then((data) => {
+        r.data = data;
+      }));
     }
 
     // After all components are resolved.
@@ -834,58 +2467,73 @@ export class Router {
       }
       // Get the resolved components for async views
       for (const r of this._pendingRoute.matched) {
-        if (r.async == false) {
-          continue;
+        for (const outlet of asyncOutlets(r)) {
+          const component = this.asyncView(r.id, outlet);
+          if (component != undefined) {
+            this.resolveAsyncView(r, outlet, component);
+          }
         }
-        r.component = this._asyncViews.get(r.id) as () => object;
       }
 
       // notify all listeners and update the history
-      this.notifyOnNavigationChanged(
-          Object.freeze(cloneRoute(this._currentRoute as Route)),
-          Object.freeze(cloneRoute(this._pendingRoute as Route))
-      );
+      const initial = this._currentRoute == null;
+      const from = Object.freeze(cloneRoute(this._currentRoute as Route));
+      const to = Object.freeze(cloneRoute(this._pendingRoute as Route));
+      this.notifyOnNavigationChanged(from, to);
 
       this._currentRoute = cloneRoute(this._pendingRoute as Route);
       this._pendingRoute = null;
 
-      // Resolve history update if needed
-      if (historyFullURL(this._history.location)
-      != this._currentRoute.fullPath) {
+      // Resolve history update if needed, the navigation triggered
+      // by the history replaces the history entry at most
+      if (this.historyURL() != this._currentRoute.fullPath) {
         // Push
-        if (this._currentRoute.action == HISTORY_ACTION.PUSH) {
-          this._history.push(this._currentRoute.fullPath);
+        if (navigation.popDelta == null
+          && this._currentRoute.action == HISTORY_ACTION.PUSH) {
+          this.updateHistory(this._currentRoute.fullPath, false);
         // Replace
-        } else if (this._currentRoute.action == HISTORY_ACTION.REPLACE) {
-          this._history.replace(this._currentRoute.fullPath);
+        } else {
+          this.updateHistory(this._currentRoute.fullPath, true);
         }
       }
 
-      if (onComplete != null) {
-        onComplete();
-      }
+      this.settleNavigation(navigation, navigation.redirected
+        ? NAVIGATION_RESULT.REDIRECTED
+        : NAVIGATION_RESULT.SUCCESS, this._currentRoute);
+
+      this.resolveScroll(initial ? null : from, to);
     };
 
-    // Resolve lazy loaded async components
-    if (asyncPending.length > 0) {
-      Promise.all(asyncPending).then((views) => {
-        for (const v of views) {
-          const view = v as {id: symbol; component: () => object};
-          this._asyncViews.set(view.id, view.component);
-        }
-        afterResolved();
-      }).catch((e) => {
-        this.notifyOnError(
-            new Error(`failed to load async error, ${e.toString()}`)
-        );
-        if (onAbort != null) {
-          onAbort();
-        }
-      });
-    // No pending async components
-    } else {
+    // No pending async components or route data loaders
+    if (asyncPending.length == 0 && loading.length == 0) {
       afterResolved();
+      return;
     }
+
+    // Resolve lazy loaded async components and route data in parallel
+    Promise.all([
+      Promise.all(asyncPending).catch((e) => {
+        throw new Error(`failed to load async error, ${e.toString()}`);
+      }),
+      Promise.all(loading).catch((e) => {
+        throw new Error(`route loader error, ${e.toString()}`);
+      }),
+    ]).then(() => {
+      // Superseded navigation
+      if (navigation.settled) {
+        return;
+      }
+      afterResolved();
+    }).catch((e) => {
+      if (navigation.settled) {
+        return;
+      }
+      const route = this._pendingRoute;
+      this._pendingRoute = null;
+      this.failNavigation(navigation, e, route);
+      // Revert history if needed
+      this.revertHistory(navigation);
+    });
   }
 
   /**
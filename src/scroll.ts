@@ -0,0 +1,144 @@
+/**
+ * Svelte Router scroll behavior module.
+ * @module svelte-router/scroll
+ */
+
+import tc from '@spaceavocado/type-check';
+import {Route} from './route';
+
+/**
+ * Window scroll position.
+ */
+export interface ScrollPosition {
+  /** Horizontal scroll position. */
+  x: number;
+  /** Vertical scroll position. */
+  y: number;
+}
+
+/**
+ * Scroll target resolved by the scroll behavior.
+ * * x, y: scroll to the position.
+ * * selector: scroll to the element, e.g. '#anchor', the offset
+ * is subtracted from the element position, e.g. for sticky headers.
+ */
+export interface ScrollTarget {
+  /** Horizontal scroll position. */
+  x?: number;
+  /** Vertical scroll position. */
+  y?: number;
+  /** Element selector. */
+  selector?: string;
+  /** Offset of the element position. */
+  offset?: Partial<ScrollPosition>;
+  /** Scroll behavior, defaults to 'auto'. */
+  behavior?: 'auto' | 'smooth';
+}
+
+export type scrollBehaviorResult = ScrollTarget | false | void;
+
+/**
+ * Scroll behavior function, called after the navigation is confirmed
+ * and the views are rendered.
+ * The saved position is available only for the history back and forward
+ * navigation, i.e. on POP history action.
+ * Return false or nothing to keep the scroll position.
+ */
+export type scrollBehaviorFunction = (to: Route, from: Route | null,
+  savedPosition: ScrollPosition | null) =>
+  scrollBehaviorResult | Promise<scrollBehaviorResult>;
+
+/**
+ * Default scroll behavior, restore the saved position on the history
+ * back and forward navigation, or scroll to the element of the route
+ * hash, otherwise keep the scroll position.
+ * @param {Route} to Confirmed route.
+ * @param {Route|null} from Previous route.
+ * @param {ScrollPosition|null} savedPosition Saved position on POP.
+ * @return {ScrollTarget|false}
+ */
+export function defaultScrollBehavior(
+    to: Route,
+    from: Route | null,
+    savedPosition: ScrollPosition | null): ScrollTarget | false {
+  if (savedPosition != null) {
+    return savedPosition;
+  }
+  if (to.hash.length > 0) {
+    return {selector: `#${to.hash}`};
+  }
+  return false;
+}
+
+/**
+ * Get the current window scroll position.
+ * @return {ScrollPosition}
+ */
+export function getScrollPosition(): ScrollPosition {
+  return {
+    x: window.pageXOffset,
+    y: window.pageYOffset,
+  };
+}
+
+/**
+ * Find the scroll target element.
+ * The ID selector is resolved by the element ID, i.e. the URL hash
+ * does not need to be a valid CSS selector.
+ * @param {string} selector Element selector.
+ * @return {Element|null}
+ */
+function findElement(selector: string): Element | null {
+  if (/^#[^\s]+$/.test(selector)) {
+    let id = selector.slice(1);
+    try {
+      id = decodeURIComponent(id);
+    } catch (e) {}
+    const element = document.getElementById(id);
+    if (element != null) {
+      return element;
+    }
+  }
+  try {
+    return document.querySelector(selector);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Scroll the window to the scroll target.
+ * The element target which is not found is ignored.
+ * @param {ScrollTarget} target Scroll target.
+ */
+export function scrollToTarget(target: ScrollTarget): void {
+  let position: ScrollPosition;
+  if (tc.isString(target.selector)) {
+    const element = findElement(target.selector as string);
+    if (element == null) {
+      return;
+    }
+    const offset = target.offset || {};
+    const rect = element.getBoundingClientRect();
+    position = {
+      x: rect.left + window.pageXOffset - (offset.x || 0),
+      y: rect.top + window.pageYOffset - (offset.y || 0),
+    };
+  } else {
+    const current = getScrollPosition();
+    position = {
+      x: tc.isNumber(target.x) ? target.x as number : current.x,
+      y: tc.isNumber(target.y) ? target.y as number : current.y,
+    };
+  }
+
+  if ('scrollBehavior' in document.documentElement.style) {
+    window.scrollTo({
+      left: position.x,
+      top: position.y,
+      behavior: target.behavior || 'auto',
+    });
+  } else {
+    window.scrollTo(position.x, position.y);
+  }
+}
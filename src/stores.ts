@@ -0,0 +1,85 @@
+/**
+ * Svelte Router stores module.
+ * @module svelte-router/stores
+ */
+
+import {Readable, readable} from 'svelte/store';
+import Router from './router';
+import {Route} from './route';
+import {QueryParams} from './utils';
+import {
+  RouteMap,
+  RegisteredRouteMap,
+  RegisteredRouteMeta,
+  TypedRoute,
+} from './routemap';
+
+/**
+ * Route and navigation state stores of a router.
+ * @template M Route map, see RouteMapOf.
+ */
+export interface RouteStores<M extends RouteMap = RegisteredRouteMap> {
+  /** Current route, null until the initial navigation is confirmed. */
+  route: Readable<TypedRoute<M> | null>;
+  /** Params of the current route. */
+  params: Readable<Route['params']>;
+  /** Query params of the current route. */
+  query: Readable<QueryParams>;
+  /** Meta of the current route, merged over the matched routes. */
+  meta: Readable<RegisteredRouteMeta>;
+  /** True from the before navigation until the navigation is settled. */
+  isNavigating: Readable<boolean>;
+  /** Route being navigated to, null when no navigation is in progress. */
+  pendingRoute: Readable<Route | null>;
+}
+
+/**
+ * Create the route stores of the router, the stores listen
+ * to the router while they have any subscriber.
+ * @param {Router} router Router instance.
+ * @return {RouteStores}
+ */
+export function createRouteStores<M extends RouteMap>(
+    router: Router<M>): RouteStores<M> {
+  /**
+   * Create a store of the current route value.
+   * @param {function} select Select the value of the current route.
+   * @return {Readable}
+   */
+  const currentRouteStore = <T>(
+    select: (route: Route | null) => T): Readable<T> => {
+    const current = (): T => select(router.currentRoute as Route | null);
+    return readable(current(), (set) => {
+      set(current());
+      return router.onNavigationChanged((from, to) => set(select(to)));
+    });
+  };
+
+  /**
+   * Create a store of the navigation state.
+   * @param {function} select Select the value of the pending route.
+   * @return {Readable}
+   */
+  const navigationStore = <T>(
+    select: (pending: Route | null) => T): Readable<T> => {
+    const current = (): T => select(router.pendingRoute as Route | null);
+    return readable(current(), (set) => {
+      set(current());
+      const unregister = [
+        router.onBeforeNavigation((from, to) => set(select(to))),
+        router.onNavigationSettled(() => set(select(null))),
+      ];
+      return (): void => unregister.forEach((fn) => fn());
+    });
+  };
+
+  return {
+    route: currentRouteStore((r) => r as TypedRoute<M> | null),
+    params: currentRouteStore((r) => r != null ? r.params : {}),
+    query: currentRouteStore((r) => r != null ? r.query : {}),
+    meta: currentRouteStore(
+        (r) => (r != null ? r.mergedMeta : {}) as RegisteredRouteMeta),
+    isNavigating: navigationStore((r) => r != null),
+    pendingRoute: navigationStore((r) => r),
+  };
+}
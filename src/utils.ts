@@ -127,6 +127,159 @@ export function urlPrefix(haystack: string, prefix: string): boolean {
   return hasPrefix(haystack, prefix);
 }
 
+/**
+ * Query param value, repeated keys are resolved as an array,
+ * bracket-style keys as a nested object, e.g. a[b]=c.
+ */
+export type queryValue = string | queryValue[] | QueryParams;
+
+/**
+ * Query params dictionary.
+ */
+export interface QueryParams {
+  [k: string]: queryValue;
+}
+
+/**
+ * Parse query string function, the query string is without "?".
+ */
+export type queryParser = (search: string) => QueryParams;
+
+/**
+ * Stringify query params function, the query string is without "?".
+ */
+export type queryStringifier = (query: QueryParams) => string;
+
+/**
+ * Decode query string component.
+ * @param {string} s encoded component, "+" is decoded as space.
+ * @return {string}
+ */
+function decodeQueryComponent(s: string): string {
+  s = s.replace(/\+/g, ' ');
+  try {
+    return decodeURIComponent(s);
+  } catch (e: any) {
+    return s;
+  }
+}
+
+/**
+ * Set the query value, the value of repeated key is resolved as an array.
+ * @param {QueryParams|queryValue[]} target query params.
+ * @param {string[]} path key path, the empty key appends into the array.
+ * @param {string} value decoded value.
+ */
+function setQueryValue(
+    target: QueryParams | queryValue[],
+    path: string[],
+    value: string): void {
+  const collection = target as {[k: string]: queryValue};
+  const key = path[0];
+
+  // Array push, e.g. a[]=b
+  if (key.length == 0 && tc.isArray(target)) {
+    if (path.length == 1) {
+      (target as queryValue[]).push(value);
+    } else {
+      const nested = {};
+      (target as queryValue[]).push(nested);
+      setQueryValue(nested, path.slice(1), value);
+    }
+    return;
+  }
+
+  // Final key
+  if (path.length == 1) {
+    if (collection.hasOwnProperty(key) == false) {
+      collection[key] = value;
+    } else if (tc.isArray(collection[key])) {
+      (collection[key] as queryValue[]).push(value);
+    } else {
+      collection[key] = [collection[key], value];
+    }
+    return;
+  }
+
+  // Nested key
+  if (collection.hasOwnProperty(key) == false
+    || tc.isString(collection[key])) {
+    collection[key] = path[1].length == 0 ? [] : {};
+  }
+  setQueryValue(collection[key] as QueryParams, path.slice(1), value);
+}
+
+/**
+ * Parse query string into the query params.
+ * Keys and values are percent-decoded, repeated keys are resolved
+ * as an array.
+ * @param {string} search query string without "?".
+ * @param {boolean} nested resolve bracket-style keys
+ * as nested objects, e.g. a[b]=c, or arrays, e.g. a[]=b.
+ * @return {QueryParams}
+ */
+export function parseQuery(search: string, nested = false): QueryParams {
+  const query: QueryParams = {};
+  for (const entry of search.split('&')) {
+    if (entry.length == 0) {
+      continue;
+    }
+    const separator = entry.indexOf('=');
+    const key = decodeQueryComponent(
+        separator >= 0 ? entry.slice(0, separator) : entry);
+    const value = separator >= 0
+      ? decodeQueryComponent(entry.slice(separator + 1))
+      : '';
+
+    const brackets = nested ? key.match(/^([^[\]]+)((\[[^[\]]*\])+)$/) : null;
+    if (brackets != null) {
+      const path = [brackets[1]].concat(
+          brackets[2].slice(1, -1).split(']['));
+      setQueryValue(query, path, value);
+    } else {
+      setQueryValue(query, [key], value);
+    }
+  }
+  return query;
+}
+
+/**
+ * Stringify query params into the query string.
+ * Keys and values are percent-encoded, arrays are stringified
+ * as repeated keys, nested objects as bracket-style keys, e.g. a[b]=c.
+ * Null or undefined values are omitted.
+ * @param {QueryParams} query query params.
+ * @return {string} query string without "?".
+ */
+export function stringifyQuery(query: QueryParams): string {
+  const entries: string[] = [];
+  const stringify = (key: string, value: queryValue): void => {
+    if (tc.isNullOrUndefined(value)) {
+      return;
+    }
+    if (tc.isArray(value)) {
+      for (const v of value as queryValue[]) {
+        stringify(key, v);
+      }
+    } else if (tc.isObject(value)) {
+      for (const k in value as QueryParams) {
+        if (value.hasOwnProperty(k)) {
+          stringify(`${key}[${k}]`, (value as QueryParams)[k]);
+        }
+      }
+    } else {
+      entries.push(
+          `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    }
+  };
+  for (const key in query) {
+    if (query.hasOwnProperty(key)) {
+      stringify(key, query[key]);
+    }
+  }
+  return entries.join('&');
+}
+
 /**
  * Parsed URL object.
  */
@@ -134,7 +287,7 @@ interface ParsedURL {
   /** URL base path without query or hash */
   base: string;
   /** Query params */
-  query: {[k: string]: string};
+  query: QueryParams;
   /** Hash string */
   hash: string;
 }
@@ -143,10 +296,13 @@ interface ParsedURL {
  * Extract query param and hash from URL and return
  * the base URL, dictionary of query params, and the hash.
  * @param {string} path full URL.
+ * @param {function} parse query string parser.
  * @throws an error if the URL is not valid.
  * @return {ParsedURL}
  */
-export function parseURL(path: string): ParsedURL {
+export function parseURL(
+    path: string,
+    parse: queryParser = parseQuery): ParsedURL {
   let hash = '';
   let sections = path.split('#');
 
@@ -168,11 +324,7 @@ export function parseURL(path: string): ParsedURL {
   };
 
   if (sections.length == 2) {
-    const entries = sections[1].split('&');
-    for (const entry of entries) {
-      const keyValue = entry.split('=');
-      result.query[keyValue[0]] = keyValue[1];
-    }
+    result.query = parse(sections[1]);
   }
 
   return result;
@@ -183,22 +335,16 @@ export function parseURL(path: string): ParsedURL {
  * @param {string} path URL base path without query or hash.
  * @param {object?} query query param dictionary.
  * @param {string} hash hash param.
+ * @param {function} stringify query params stringifier.
  * @return {string}
  */
 export function fullURL(
     path: string,
-    query: {[k: string]: string} | null | undefined,
-    hash: string): string {
-  let queryPath = '';
+    query: QueryParams | null | undefined,
+    hash: string,
+    stringify: queryStringifier = stringifyQuery): string {
   if (tc.not.isNullOrUndefined(query)) {
-    for (const key in query) {
-      if (query.hasOwnProperty(key)) {
-        if (queryPath.length > 0) {
-          queryPath += '&';
-        }
-        queryPath += `${key}=${query[key]}`;
-      }
-    }
+    const queryPath = stringify(query as QueryParams);
     if (queryPath.length > 0) {
       path = `${path}?${queryPath}`;
     }
@@ -222,7 +368,7 @@ export interface HistoryLocation {
   /** The URL hash fragment. */
   hash: string;
   /** Extra state for this location. */
-  state: string;
+  state: unknown;
 }
 
 /**
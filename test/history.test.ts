@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import createHistory, {HISTORY_MODE, HISTORY_ACTION} from '../src/history';
+import {Router} from '../src/router';
+import {NAVIGATION_RESULT} from '../src/navigation';
+
+test('createHistory', () => {
+  const history = createHistory(HISTORY_MODE.MEMORY, {
+    initialEntries: ['/articles?page=2'],
+  }) as any;
+  expect(history.location).toMatchObject({
+    pathname: '/articles',
+    search: '?page=2',
+  });
+  history.push('/about');
+  history.goBack();
+  expect(history.action).toBe(HISTORY_ACTION.POP);
+  expect(history.location.pathname).toBe('/articles');
+});
+
+test('memory mode', async () => {
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    initialURL: '/articles/5',
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+      },
+      {
+        path: '/articles/:id',
+        name: 'ARTICLE',
+      },
+    ],
+  });
+  router.start();
+  expect(router.currentRoute).toMatchObject({
+    name: 'ARTICLE',
+    params: {id: 5},
+  });
+
+  await router.push('/');
+  expect((await router.back()).route).toMatchObject({name: 'ARTICLE'});
+  expect((await router.forward()).route).toMatchObject({name: 'HOME'});
+  expect((await router.go(5)).type).toBe(NAVIGATION_RESULT.ABORTED);
+  expect(() => new Router({
+    mode: HISTORY_MODE.MEMORY,
+    initialURL: 5 as unknown as string,
+    routes: [],
+  })).toThrow('invalid initial URL, "5"');
+});
+
+test('memory mode external redirect and href', async () => {
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    basename: '/app',
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+      },
+      {
+        path: '/docs',
+        name: 'DOCS',
+        redirect: 'https://github.com/spaceavocado/svelte-router',
+      },
+    ],
+  });
+  expect(router.resolve({name: 'HOME', query: {q: 'x'}}).href)
+      .toBe('/app/?q=x');
+  expect(await router.push('/docs')).toMatchObject({
+    type: NAVIGATION_RESULT.FAILED,
+    route: {name: 'DOCS'},
+    error: new Error('external redirect is not supported, '
+      + '"https://github.com/spaceavocado/svelte-router"'),
+  });
+  expect(router.currentRoute).toBeNull();
+});
@@ -0,0 +1,70 @@
+import createRouter, {
+  Router,
+  ROUTER_MODE,
+  setRouter,
+  getRouter,
+  getRouteStores,
+} from '../src/index';
+import { VIEW_DEPTH_CONTEXT, VIEW_RECORD_CONTEXT } from '../src/lifecycle';
+import { get } from 'svelte/store';
+
+const mockContext = new Map<unknown, unknown>();
+jest.mock('svelte', () => ({
+  getContext: (key: unknown): unknown => mockContext.get(key),
+  setContext: (key: unknown, value: unknown): void => {
+    mockContext.set(key, value);
+  },
+  onDestroy: (): void => {},
+}));
+
+const routes = (): {path: string; name: string}[] => [
+  {path: '/', name: 'HOME'},
+  {path: '/about', name: 'ABOUT'},
+];
+
+beforeEach(() => {
+  mockContext.clear();
+});
+
+test('missing router', () => {
+  expect(() => getRouter()).toThrow(
+      'missing router, see createRouter or setRouter');
+  expect(() => getRouteStores()).toThrow(
+      'missing router, see createRouter or setRouter');
+});
+
+test('global router', () => {
+  const store = createRouter({mode: ROUTER_MODE.MEMORY, routes: routes()});
+  expect(getRouter()).toBe(store);
+  expect(get(store)).toBeInstanceOf(Router);
+  expect(getRouteStores()).toBe(get(store).stores);
+});
+
+test('setRouter', () => {
+  const global = createRouter({mode: ROUTER_MODE.MEMORY, routes: routes()});
+  const instance = new Router({mode: ROUTER_MODE.MEMORY, routes: routes()});
+  mockContext.set(VIEW_DEPTH_CONTEXT, 2);
+  const store = setRouter(instance);
+  expect(get(store)).toBe(instance);
+  expect(getRouter()).toBe(store);
+  expect(getRouter()).not.toBe(global);
+  expect(mockContext.get(VIEW_DEPTH_CONTEXT)).toBe(0);
+  expect(mockContext.get(VIEW_RECORD_CONTEXT)).toBeNull();
+  expect(getRouteStores()).toBe(instance.stores);
+  expect(getRouteStores()).not.toBe(get(global).stores);
+
+  const provided = createRouter({mode: ROUTER_MODE.MEMORY, routes: routes()});
+  expect(setRouter(provided)).toBe(provided);
+  expect(getRouter()).toBe(provided);
+});
+
+test('provided router stores', async () => {
+  createRouter({mode: ROUTER_MODE.MEMORY, routes: routes()});
+  const instance = new Router({mode: ROUTER_MODE.MEMORY, routes: routes()});
+  setRouter(instance);
+  const onRoute = jest.fn();
+  getRouteStores().route.subscribe(onRoute);
+  await instance.push('/about');
+  expect(onRoute).toHaveBeenLastCalledWith(
+      expect.objectContaining({name: 'ABOUT'}));
+});
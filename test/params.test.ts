@@ -0,0 +1,56 @@
+import {createParamParser, paramType, PARAM_TYPE} from '../src/params';
+
+test('createParamParser', () => {
+  const invalid = [
+    'NUMBER',
+    4,
+    {parse: () => ''},
+  ];
+  for (const t of invalid) {
+    expect(() => createParamParser(t as paramType)).toThrow('invalid param type');
+  }
+
+  const date = new Date('2020-01-31');
+  const tests: [paramType, string, unknown, unknown][] = [
+    // type, URL value, parsed value, param value
+    [PARAM_TYPE.STRING, '01234', '01234', '01234'],
+    [PARAM_TYPE.INT, '-15', -15, -15],
+    [PARAM_TYPE.FLOAT, '10.25', 10.25, 10.25],
+    [PARAM_TYPE.BOOLEAN, 'false', false, false],
+    [
+      PARAM_TYPE.UUID,
+      '123e4567-e89b-12d3-a456-426614174000',
+      '123e4567-e89b-12d3-a456-426614174000',
+      '123e4567-e89b-12d3-a456-426614174000',
+    ],
+    [PARAM_TYPE.DATE, '2020-01-31', date, date],
+    [['draft', 'published'], 'draft', 'draft', 'draft'],
+    [
+      {
+        parse: (v: string): string[] => v.split(','),
+        serialize: (v: unknown): string => (v as string[]).join(','),
+      },
+      'a,b',
+      ['a', 'b'],
+      ['a', 'b'],
+    ],
+  ];
+  for (const t of tests) {
+    const parser = createParamParser(t[0]);
+    expect(parser.parse(t[1])).toEqual(t[2]);
+    expect(parser.serialize(t[3])).toBe(t[1]);
+  }
+
+  const failing: [paramType, string][] = [
+    [PARAM_TYPE.INT, '5.5'],
+    [PARAM_TYPE.FLOAT, 'abc'],
+    [PARAM_TYPE.BOOLEAN, '1'],
+    [PARAM_TYPE.UUID, '123e4567'],
+    [PARAM_TYPE.DATE, '2020-13-45'],
+    [['draft', 'published'], 'archived'],
+  ];
+  for (const t of failing) {
+    expect(() => createParamParser(t[0]).parse(t[1]))
+        .toThrow(`invalid param value "${t[1]}"`);
+  }
+});
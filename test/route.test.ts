@@ -3,11 +3,20 @@ import {
   createRouteRecord,
   RouteConfigPrefab,
   RouteConfig,
-  createRoute
+  createRoute,
+  mergeMeta,
+  Record,
+  META_MERGE,
+  routeScore,
+  compareRouteScore,
+  isLazyComponent,
 } from '../src/route';
 import { HISTORY_ACTION } from '../src/history';
 
 test('createRouteConfig', () => {
+  class View {
+    $destroy(): void {}
+  }
   const invalid = [
     {
       test: undefined,
@@ -25,6 +34,34 @@ test('createRouteConfig', () => {
       test: {path: '/valid', component: 4},
       error: 'invalid route config component property'
     },
+    {
+      test: {path: '/valid', components: {sidebar: 4}},
+      error: 'invalid route config components property, sidebar'
+    },
+    {
+      test: {path: '/valid', components: {sidebar: {loader: 4}}},
+      error: 'invalid route config components property, sidebar'
+    },
+    {
+      test: {path: '/valid', component: () => {}, components: {default: () => {}}},
+      error: 'invalid route config components property, default'
+    },
+    {
+      test: {path: '/valid', components: {sidebar: () => {}}, props: {sidebar: 4}},
+      error: 'invalid route config props property, sidebar'
+    },
+    {
+      test: {path: '/valid', alias: ['/alias', 4]},
+      error: 'invalid route config alias property'
+    },
+    {
+      test: {path: '/valid', strict: 'yes'},
+      error: 'invalid route config strict property'
+    },
+    {
+      test: {path: '/valid', keepAlive: 1},
+      error: 'invalid route config keepAlive property'
+    },
     {
       test: {path: '/valid', meta: 4},
       error: 'invalid route config meta property'
@@ -37,6 +74,38 @@ test('createRouteConfig', () => {
       test: {path: '/valid', props: 4},
       error: 'invalid route config props property'
     },
+    {
+      test: {path: '/valid', beforeEnter: [() => {}, 4]},
+      error: 'invalid route config beforeEnter property'
+    },
+    {
+      test: {path: '/valid', beforeLeave: 4},
+      error: 'invalid route config beforeLeave property'
+    },
+    {
+      test: {path: '/valid', beforeUpdate: [4]},
+      error: 'invalid route config beforeUpdate property'
+    },
+    {
+      test: {path: '/valid', paramTypes: {id: 'NUMBER'}},
+      error: 'invalid route config paramTypes property, id'
+    },
+    {
+      test: {path: '/valid', load: {}},
+      error: 'invalid route config load property'
+    },
+    {
+      test: {path: '/valid', loadingComponent: 4},
+      error: 'invalid route config loadingComponent property'
+    },
+    {
+      test: {path: '/valid', retry: -1},
+      error: 'invalid route config retry property'
+    },
+    {
+      test: {path: '/valid', component: new Promise(() => {}), retry: 1},
+      error: 'invalid route config retry property, default'
+    },
   ];
   const tests = [
     // Minimal route
@@ -61,6 +130,29 @@ test('createRouteConfig', () => {
         async: true,
       }
     },
+    // Named views
+    {
+      test: {
+        path: '/homepage',
+        component: View,
+        components: {
+          sidebar: {loader: () => Promise.resolve({default: View})},
+        },
+        props: {default: true},
+      } as RouteConfigPrefab,
+      result: {
+        path: '/homepage',
+        component: View,
+        components: {
+          default: View,
+        },
+        outletProps: {
+          default: true,
+          sidebar: false,
+        },
+        async: true,
+      }
+    },
   ];
   for (const t of invalid) {
     expect(() => {createRouteConfig(t.test as RouteConfigPrefab)}).toThrow(t.error);
@@ -190,3 +282,95 @@ test('createRoute', () => {
     expect(createRoute(t.location, t.matches)).toMatchObject(t.result);
   }
 });
+
+test('mergeMeta', () => {
+  const matches = [
+    {meta: {title: 'Admin', auth: {required: true, roles: ['admin']}}},
+    {meta: {}},
+    {meta: {title: 'Users', auth: {roles: ['editor']}}},
+  ] as Record[];
+  const tests = [
+    {
+      merge: META_MERGE.SHALLOW,
+      result: {title: 'Users', auth: {roles: ['editor']}},
+    },
+    {
+      merge: META_MERGE.DEEP,
+      result: {title: 'Users', auth: {required: true, roles: ['editor']}},
+    },
+    {
+      merge: (parent: {[k: string]: unknown}, child: {[k: string]: unknown}) =>
+        ({...child, ...parent}),
+      result: {title: 'Admin', auth: {required: true, roles: ['admin']}},
+    },
+  ];
+
+  for (const t of tests) {
+    expect(mergeMeta(matches, t.merge)).toEqual(t.result);
+  }
+  expect(matches[0].meta).toEqual(
+      {title: 'Admin', auth: {required: true, roles: ['admin']}});
+  expect(mergeMeta([{} as Record])).toEqual({});
+});
+
+test('routeScore', () => {
+  const tests: [string, number[]][] = [
+    ['/', []],
+    ['*', [-1]],
+    ['/users/new', [4, 4]],
+    ['/users/:id', [4, 2]],
+    ['/users/:id(\\d+)', [4, 3]],
+    ['/users/:id?', [4, 1]],
+    ['/users/:path*', [4, 0]],
+    ['/files/file-:id', [4, 2.5]],
+    ['/(.*)', [0]],
+  ];
+  for (const t of tests) {
+    expect(routeScore(t[0])).toEqual(t[1]);
+  }
+});
+
+test('compareRouteScore', () => {
+  const paths = [
+    '*',
+    '/users/:id?',
+    '/users/:id',
+    '/users',
+    '/users/new',
+    '/',
+    '/(.*)',
+  ];
+  expect(paths
+      .map((path) => ({path, score: routeScore(path)}))
+      .sort((a, b) => compareRouteScore(a.score, b.score))
+      .map((r) => r.path)
+  ).toEqual([
+    '/',
+    '/users',
+    '/users/new',
+    '/users/:id',
+    '/users/:id?',
+    '/(.*)',
+    '*',
+  ]);
+});
+
+test('isLazyComponent', () => {
+  class Component {
+    $destroy(): void {}
+  }
+  const loader = (): Promise<object> => Promise.resolve({default: Component});
+  const tests: [unknown, boolean][] = [
+    [Component, false],
+    [(): void => {}, false],
+    [false, false],
+    [Promise.resolve({default: Component}), false],
+    [loader, false],
+    [{loader}, true],
+    [{loader: Component}, true],
+    [{loader: 'view.svelte'}, false],
+  ];
+  for (const t of tests) {
+    expect(isLazyComponent(t[0])).toBe(t[1]);
+  }
+});
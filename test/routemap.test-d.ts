@@ -0,0 +1,109 @@
+/**
+ * Type-level tests of the route map, checked by the type-check script.
+ */
+import createRouter, {
+  Router,
+  PARAM_TYPE,
+  RouteConfigPrefab,
+  RouteMapOf,
+  PathParams,
+} from '../src/index';
+
+type Equal<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2)
+    ? true
+    : false;
+
+const expectType = <T extends true>(): T | void => undefined;
+
+const routes = [
+  {path: '/', name: 'HOME'},
+  {path: '/users/:id/:tab?', name: 'USER', paramTypes: {id: PARAM_TYPE.INT}},
+  {
+    path: '/reports/:day',
+    paramTypes: {day: PARAM_TYPE.DATE},
+    children: [
+      {path: '', name: 'REPORT'},
+      {
+        path: '/:section',
+        name: 'REPORT_SECTION',
+        paramTypes: {section: ['costs', 'sales']},
+      },
+    ],
+  },
+] as const;
+
+type Routes = RouteMapOf<typeof routes>;
+const router = new Router<Routes>({routes});
+
+// Params derived from the path
+expectType<Equal<
+  PathParams<'/users/:id(\\d+)/:tab?'>,
+  {id: string | number; tab?: string | number}
+>>();
+expectType<Equal<PathParams<'/files/:path*'>, {path?: string | number}>>();
+expectType<Equal<PathParams<'/about'>, {}>>();
+
+// Route map inferred from the routes
+expectType<Equal<keyof Routes,
+  'HOME' | 'USER' | 'REPORT' | 'REPORT_SECTION'>>();
+expectType<Equal<Routes['USER'], {id: number; tab?: string | number}>>();
+expectType<Equal<Routes['REPORT'], {day: Date}>>();
+expectType<Equal<
+  Routes['REPORT_SECTION'],
+  {day: Date; section: 'costs' | 'sales'}
+>>();
+
+// Named locations
+router.push({name: 'HOME'});
+router.push({name: 'USER', params: {id: 5}});
+router.replace({name: 'USER', params: {id: 5, tab: 'posts'}, query: {a: 'b'}});
+router.push('/users/5');
+router.push({path: '/users/5'});
+router.routeURL({name: 'REPORT', params: {day: new Date()}});
+router.routeURL({
+  name: 'REPORT_SECTION',
+  params: {day: new Date(), section: 'costs'},
+});
+
+// @ts-expect-error unknown route name
+router.push({name: 'USERS', params: {id: 5}});
+// @ts-expect-error unknown route name
+router.routeURL({name: 'ABOUT'});
+// @ts-expect-error missing required params
+router.push({name: 'USER'});
+// @ts-expect-error missing required param
+router.replace({name: 'USER', params: {tab: 'posts'}});
+// @ts-expect-error missing required param of the parent route
+router.routeURL({name: 'REPORT_SECTION', params: {section: 'costs'}});
+// @ts-expect-error wrong param type
+router.push({name: 'USER', params: {id: '5'}});
+// @ts-expect-error wrong param type of the parent route
+router.routeURL({name: 'REPORT', params: {day: '2020-01-31'}});
+// @ts-expect-error value outside of the enum param type
+router.push({name: 'REPORT_SECTION', params: {day: new Date(), section: 'tax'}});
+
+// Routes typed by the route name
+const route = router.currentRoute;
+if (route != null && route.name == 'USER') {
+  expectType<Equal<typeof route.params, {id: number; tab?: string | number}>>();
+}
+const resolved = router.resolve({name: 'REPORT', params: {day: new Date()}});
+if (resolved.route != null && resolved.route.name == 'REPORT') {
+  expectType<Equal<typeof resolved.route.params, {day: Date}>>();
+}
+
+// Route map inferred by createRouter
+createRouter({
+  routes: [{path: '/', name: 'HOME'}, {path: '/posts/:id', name: 'POST'}],
+}).subscribe((inferred) => {
+  inferred.push({name: 'POST', params: {id: 'intro'}});
+  // @ts-expect-error unknown route name
+  inferred.push({name: 'USER', params: {id: 5}});
+  // @ts-expect-error missing required params
+  inferred.push({name: 'POST'});
+});
+
+// Untyped routes accept any route name
+const untyped: RouteConfigPrefab[] = [{path: '/', name: 'HOME'}];
+new Router({routes: untyped}).push({name: 'ANY', params: {id: '5'}});
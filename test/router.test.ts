@@ -1,7 +1,16 @@
 import {
   Router,
 } from '../src/router';
-import { RouteConfigPrefab } from '../src/route';
+import {
+  RouteConfigPrefab,
+  ROUTE_MATCHING,
+  TRAILING_SLASH,
+  META_MERGE,
+} from '../src/route';
+import { HISTORY_MODE } from '../src/history';
+import { RawLocation } from '../src/location';
+import { NAVIGATION_RESULT, NAVIGATION_DIRECTION } from '../src/navigation';
+import { PARAM_TYPE } from '../src/params';
 
 test('basename', () => {
   expect(new Router({
@@ -56,4 +65,1493 @@ test('routes', () => {
   expect(routes[2]).toMatchObject({
     path: '*',
   });
-});
\ No newline at end of file
+});
+test('navigation result', async () => {
+  const router = new Router({
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+      },
+      {
+        path: '/about',
+        name: 'ABOUT',
+      },
+      {
+        path: '/legacy',
+        redirect: '/about',
+      },
+      {
+        path: '/admin',
+        name: 'ADMIN',
+      },
+    ],
+  });
+  router.navigationGuard((from, to, next) => {
+    if (to && to.name == 'ADMIN') {
+      next(false);
+      return;
+    }
+    next();
+  });
+
+  const onComplete = jest.fn();
+  const onAbort = jest.fn();
+  expect(await router.push('/', onComplete, onAbort)).toMatchObject({
+    type: NAVIGATION_RESULT.SUCCESS,
+    route: {name: 'HOME'},
+    error: null,
+  });
+  expect(onComplete).toHaveBeenCalledTimes(1);
+  expect(await router.push('/')).toMatchObject({
+    type: NAVIGATION_RESULT.DUPLICATED,
+    route: {name: 'HOME'},
+  });
+  expect(await router.push('/legacy')).toMatchObject({
+    type: NAVIGATION_RESULT.REDIRECTED,
+    route: {name: 'ABOUT'},
+  });
+  expect(await router.replace({name: 'ADMIN'} as RawLocation))
+      .toMatchObject({
+        type: NAVIGATION_RESULT.ABORTED,
+        route: {name: 'ADMIN'},
+      });
+
+  const result = await router.push('/unknown', onComplete, onAbort);
+  expect(result.type).toBe(NAVIGATION_RESULT.FAILED);
+  expect(result.route).toBeNull();
+  expect(result.error).toEqual(
+      new Error('no matching route found for path:/unknown'));
+  expect(onAbort).toHaveBeenCalledTimes(1);
+  expect(router.currentRoute).toMatchObject({name: 'ABOUT'});
+});
+
+test('redirect chain', async () => {
+  const router = new Router({
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/a', redirect: '/b'},
+      {path: '/b', redirect: {name: 'C'}},
+      {path: '/c', name: 'C'},
+      {path: '/ping', redirect: '/pong'},
+      {path: '/pong', redirect: '/ping'},
+      {path: '/login', name: 'LOGIN'},
+      {path: '/step/:n', redirect: (to) => `/step/${+to.params.n + 1}`},
+    ],
+    maxRedirects: 3,
+  });
+  router.navigationGuard((from, to, next) => {
+    next(to && to.name == 'LOGIN' ? '/login' : undefined);
+  });
+  const onError = jest.fn();
+  router.onError(onError);
+
+  const redirected = await router.push('/a?q=1');
+  expect(redirected).toMatchObject({
+    type: NAVIGATION_RESULT.REDIRECTED,
+    route: {name: 'C', redirectedFrom: '/a?q=1'},
+  });
+  expect((await router.push('/')).route?.redirectedFrom).toBeNull();
+
+  const tests = [
+    {
+      path: '/ping',
+      error: 'redirect loop detected, /ping -> /pong -> /ping',
+    },
+    {
+      path: '/login',
+      error: 'redirect loop detected, /login -> /login',
+    },
+    {
+      path: '/step/1',
+      error: 'maximum redirects exceeded (3), '
+        + '/step/1 -> /step/2 -> /step/3 -> /step/4',
+    },
+  ];
+  for (const t of tests) {
+    const result = await router.push(t.path);
+    expect(result.type).toBe(NAVIGATION_RESULT.FAILED);
+    expect(result.error?.message).toBe(t.error);
+    expect(onError).toHaveBeenLastCalledWith(result.error);
+  }
+  expect(router.currentRoute?.name).toBe('HOME');
+
+  expect(() => new Router({routes: [], maxRedirects: -1}))
+      .toThrow('invalid max redirects, "-1"');
+});
+
+test('navigation direction', async () => {
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/a', name: 'A'},
+      {path: '/b', name: 'B'},
+    ],
+  });
+  const directions: string[] = [];
+  router.onNavigationChanged((from, to) => {
+    directions.push(`${to.name} ${to.direction}`);
+  });
+  router.start();
+  await new Promise((r) => setTimeout(r));
+  await router.push('/a');
+  await router.push('/b');
+  await router.back();
+  await router.back();
+  await router.forward();
+  await router.replace('/b');
+  await router.go(-1);
+  await router.go(1);
+  expect(directions).toEqual([
+    'HOME INITIAL',
+    'A FORWARD',
+    'B FORWARD',
+    'A BACK',
+    'HOME BACK',
+    'A FORWARD',
+    'B REPLACE',
+    'HOME BACK',
+    'B FORWARD',
+  ]);
+  expect(router.resolve('/a').route?.direction)
+      .toBe(NAVIGATION_DIRECTION.FORWARD);
+});
+
+test('navigation direction of repeated URLs', async () => {
+  for (const mode of [HISTORY_MODE.MEMORY, HISTORY_MODE.HASH]) {
+    const router = new Router({
+      mode,
+      routes: [
+        {path: '/', name: 'HOME'},
+        {path: '/a', name: 'A'},
+        {path: '/b', name: 'B'},
+      ],
+    });
+    const directions: string[] = [];
+    router.onNavigationChanged((from, to) => {
+      directions.push(`${to.name} ${to.direction}`);
+    });
+    await router.push('/a');
+    await router.push('/b');
+    await router.push('/a');
+    await router.back();
+    await router.back();
+    await router.forward();
+    await router.forward();
+    expect(directions).toEqual([
+      'A FORWARD',
+      'B FORWARD',
+      'A FORWARD',
+      'B BACK',
+      'A BACK',
+      'B FORWARD',
+      'A FORWARD',
+    ]);
+  }
+});
+
+test('aborted history pop', async () => {
+  let leave = false;
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/a', name: 'A'},
+      {path: '/b', name: 'B', beforeLeave: (from, to, next) => next(leave)},
+    ],
+  });
+  const onChanged = jest.fn();
+  router.onNavigationChanged(onChanged);
+  router.start();
+  await new Promise((r) => setTimeout(r));
+  await router.push('/a');
+  await router.push('/b');
+  expect(await router.go(-2)).toMatchObject({
+    type: NAVIGATION_RESULT.ABORTED,
+    route: {name: 'HOME'},
+  });
+  expect(router.currentRoute?.name).toBe('B');
+  expect(onChanged).toHaveBeenCalledTimes(3);
+
+  // The history entries and position are kept
+  leave = true;
+  expect((await router.back()).route).toMatchObject({name: 'A'});
+  expect((await router.forward()).route).toMatchObject({name: 'B'});
+  expect((await router.forward()).type).toBe(NAVIGATION_RESULT.ABORTED);
+  expect((await router.go(-2)).route).toMatchObject({name: 'HOME'});
+});
+
+test('history pop out of range', async () => {
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/a', name: 'A'},
+    ],
+  });
+  const onChanged = jest.fn();
+  router.onNavigationChanged(onChanged);
+  await router.push('/');
+  await router.push('/a');
+  expect(await router.go(-5)).toMatchObject({
+    type: NAVIGATION_RESULT.ABORTED,
+    route: {name: 'A'},
+  });
+  expect((await router.forward()).type).toBe(NAVIGATION_RESULT.ABORTED);
+  expect((await router.back()).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect((await router.back()).type).toBe(NAVIGATION_RESULT.ABORTED);
+  expect(router.currentRoute?.name).toBe('HOME');
+  expect(onChanged).toHaveBeenCalledTimes(3);
+
+  // The browser history does not change out of range
+  jest.useFakeTimers();
+  const browser = new Router({
+    routes: [{path: '/', name: 'HOME'}],
+  });
+  await browser.push('/');
+  const pop = browser.go(100);
+  jest.advanceTimersByTime(1000);
+  expect(await pop).toMatchObject({
+    type: NAVIGATION_RESULT.ABORTED,
+    route: {name: 'HOME'},
+  });
+  jest.useRealTimers();
+});
+
+test('history index of the initial entry', async () => {
+  const length = window.history.length;
+
+  // The existing state is kept, and merged with the index on start
+  window.history.replaceState({key: 'a1', state: {page: 1}}, '', '/a');
+  const router = new Router({routes: [{path: '/a', name: 'A'}]});
+  expect(window.history.state).toEqual({key: 'a1', state: {page: 1}});
+  router.start();
+  await new Promise((r) => setTimeout(r));
+  expect(router.currentRoute?.name).toBe('A');
+  expect(window.history.state).toMatchObject({state: {page: 1, index: 0}});
+
+  window.history.replaceState({page: 2}, '', '/#/a');
+  const hash = new Router({
+    mode: HISTORY_MODE.HASH,
+    routes: [{path: '/a', name: 'A'}],
+  });
+  expect(window.history.state).toEqual({page: 2});
+  hash.start();
+  await new Promise((r) => setTimeout(r));
+  expect(hash.currentRoute?.name).toBe('A');
+  expect(window.history.state).toEqual({page: 2, index: 0});
+  expect(window.history.length).toBe(length);
+});
+
+test('history URL of the initial and popped navigation', async () => {
+  const url = '/login?redirect=/dashboard&x=a+b&name=Zo%C3%AB&q=caf\u00e9';
+  window.history.replaceState(null, '', url);
+  const search = window.location.search;
+  const length = window.history.length;
+  const router = new Router({
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/login', name: 'LOGIN'},
+    ],
+  });
+  router.start();
+  await new Promise((r) => setTimeout(r));
+  expect(router.currentRoute).toMatchObject({
+    name: 'LOGIN',
+    query: {
+      redirect: '/dashboard',
+      x: 'a b',
+      name: 'Zo\u00eb',
+      q: 'caf\u00e9',
+    },
+  });
+  expect(window.history.length).toBe(length);
+  expect(window.location.search).toBe(search);
+
+  await router.push('/');
+  expect(window.history.length).toBe(length + 1);
+  expect((await router.back()).route).toMatchObject({name: 'LOGIN'});
+  expect(window.history.length).toBe(length + 1);
+  expect(window.location.search).toBe(search);
+  expect((await router.forward()).route).toMatchObject({name: 'HOME'});
+  expect(window.location.pathname).toBe('/');
+});
+
+test('beforeEnter', async () => {
+  const calls: string[] = [];
+  const guard = (name: string) => (from, to, next) => {
+    calls.push(name);
+    next();
+  };
+  const router = new Router({
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+      },
+      {
+        path: '/admin',
+        beforeEnter: guard('admin'),
+        children: [
+          {
+            path: '',
+            name: 'ADMIN',
+          },
+          {
+            path: '/users',
+            name: 'ADMIN_USERS',
+            beforeEnter: [guard('users'), guard('users-2')],
+          },
+          {
+            path: '/locked',
+            name: 'ADMIN_LOCKED',
+            beforeEnter: (from, to, next) => next(false),
+          },
+        ],
+      },
+    ],
+  });
+  router.navigationGuard(guard('global'));
+
+  await router.push('/');
+  expect(calls).toEqual(['global']);
+
+  calls.length = 0;
+  await router.push('/admin/users');
+  expect(calls).toEqual(['global', 'admin', 'users', 'users-2']);
+
+  calls.length = 0;
+  await router.push('/admin');
+  expect(calls).toEqual(['global']);
+
+  expect((await router.push('/admin/locked')).type)
+      .toBe(NAVIGATION_RESULT.ABORTED);
+  expect(router.currentRoute).toMatchObject({name: 'ADMIN'});
+});
+
+test('beforeLeave and beforeUpdate', async () => {
+  const calls: string[] = [];
+  const guard = (name: string) => (from, to, next) => {
+    calls.push(name);
+    next();
+  };
+  const router = new Router({
+    routes: [
+      {
+        path: '/articles',
+        beforeLeave: guard('articles-leave'),
+        beforeUpdate: guard('articles-update'),
+        children: [
+          {
+            path: '/:id',
+            name: 'ARTICLE',
+            beforeLeave: guard('article-leave'),
+            beforeUpdate: guard('article-update'),
+          },
+        ],
+      },
+      {
+        path: '/editor',
+        name: 'EDITOR',
+      },
+    ],
+  });
+  router.navigationGuard(guard('global'));
+  const article = router.routes[0].children[0];
+  const unregister = router.routeUpdateGuard(
+      article.id, guard('component-update'));
+  router.routeLeaveGuard(article.id, guard('component-leave'));
+
+  await router.push('/articles/1');
+  expect(calls).toEqual(['global']);
+
+  calls.length = 0;
+  await router.push('/articles/2');
+  expect(calls).toEqual(['global', 'article-update', 'component-update']);
+
+  calls.length = 0;
+  unregister();
+  await router.push('/articles/3');
+  expect(calls).toEqual(['global', 'article-update']);
+
+  calls.length = 0;
+  await router.push('/editor');
+  expect(calls).toEqual([
+    'article-leave', 'component-leave', 'articles-leave', 'global',
+  ]);
+
+  router.routeLeaveGuard(router.routes[1].id, (from, to, next) => {
+    next(false);
+  });
+  expect((await router.push('/articles/1')).type)
+      .toBe(NAVIGATION_RESULT.ABORTED);
+  expect(router.currentRoute).toMatchObject({name: 'EDITOR'});
+});
+
+test('navigation guard result', async () => {
+  const routes = [
+    {
+      path: '/',
+      name: 'HOME',
+    },
+    {
+      path: '/login',
+      name: 'LOGIN',
+    },
+    {
+      path: '/private',
+      name: 'PRIVATE',
+    },
+    {
+      path: '/broken',
+      name: 'BROKEN',
+    },
+    {
+      path: '/closed',
+      name: 'CLOSED',
+    },
+  ];
+  expect(() => new Router({routes, guardTimeout: -1}))
+      .toThrow('invalid guard timeout, "-1"');
+
+  const router = new Router({routes});
+  router.navigationGuard(async (from, to) => {
+    if (to && to.name == 'PRIVATE') {
+      return '/login';
+    }
+    if (to && to.name == 'BROKEN') {
+      throw new Error('broken');
+    }
+    return true;
+  });
+  router.navigationGuard((from, to) => to == null || to.name != 'CLOSED');
+
+  expect((await router.push('/')).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(await router.push('/private')).toMatchObject({
+    type: NAVIGATION_RESULT.REDIRECTED,
+    route: {name: 'LOGIN'},
+  });
+  expect(await router.push('/broken')).toMatchObject({
+    type: NAVIGATION_RESULT.FAILED,
+    error: new Error('navigation guard error, Error: broken'),
+  });
+  expect((await router.push('/closed')).type)
+      .toBe(NAVIGATION_RESULT.ABORTED);
+});
+
+test('navigation guard arguments', async () => {
+  const router = new Router({
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/default', name: 'DEFAULT'},
+      {path: '/rest', name: 'REST'},
+      {path: '/wrapped', name: 'WRAPPED'},
+      {path: '/other', name: 'OTHER'},
+    ],
+  });
+  const calls: string[] = [];
+  const log = (guard) => (...args): void => {
+    calls.push('wrapped');
+    return guard(...args);
+  };
+  router.navigationGuard((from, to, next = (): void => {}) => {
+    if (to && to.name == 'DEFAULT') {
+      setTimeout(() => next(false));
+      return;
+    }
+    next();
+  });
+  router.navigationGuard((...args) => {
+    if (args[1] && args[1].name == 'REST') {
+      setTimeout(() => args[2]('/other'));
+      return;
+    }
+    args[2]();
+  });
+  router.navigationGuard(log((from, to, next) => {
+    setTimeout(() => next(!to || to.name != 'WRAPPED'));
+  }));
+
+  expect((await router.push('/')).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect((await router.push('/default')).type)
+      .toBe(NAVIGATION_RESULT.ABORTED);
+  expect(await router.push('/rest')).toMatchObject({
+    type: NAVIGATION_RESULT.REDIRECTED,
+    route: {name: 'OTHER'},
+  });
+  expect((await router.push('/wrapped')).type)
+      .toBe(NAVIGATION_RESULT.ABORTED);
+  expect(calls).toHaveLength(3);
+});
+
+test('navigation guard timeout', async () => {
+  const router = new Router({
+    guardTimeout: 10,
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+      },
+    ],
+  });
+  let lateNext;
+  router.navigationGuard(function pendingGuard(from, to, next) {
+    lateNext = next;
+  });
+  const onError = jest.fn();
+  router.onError(onError);
+
+  const result = await router.push('/');
+  expect(result.type).toBe(NAVIGATION_RESULT.FAILED);
+  expect(onError).toHaveBeenCalledWith(new Error(
+      'navigation guard timeout, guard "pendingGuard" '
+      + 'has not resolved within 10ms'));
+
+  lateNext();
+  expect(router.currentRoute).toBeNull();
+});
+
+test('cancel superseded navigation', async () => {
+  let resolveComponent;
+  const router = new Router({
+    routes: [
+      {
+        path: '/slow',
+        name: 'SLOW',
+      },
+      {
+        path: '/lazy',
+        name: 'LAZY',
+        component: new Promise((resolve) => {
+          resolveComponent = resolve;
+        }),
+      },
+      {
+        path: '/fast',
+        name: 'FAST',
+      },
+    ],
+  });
+  let slowNext;
+  router.navigationGuard((from, to, next) => {
+    if (to && to.name == 'SLOW') {
+      slowNext = next;
+      return;
+    }
+    next();
+  });
+
+  const onAbort = jest.fn();
+  const slow = router.push('/slow', undefined, onAbort);
+  const fast = router.push('/fast');
+  expect(await slow).toMatchObject({
+    type: NAVIGATION_RESULT.CANCELLED,
+    route: {name: 'SLOW'},
+  });
+  expect(onAbort).toHaveBeenCalledWith(
+      expect.objectContaining({type: NAVIGATION_RESULT.CANCELLED}));
+  expect((await fast).type).toBe(NAVIGATION_RESULT.SUCCESS);
+
+  slowNext();
+  expect(router.currentRoute).toMatchObject({name: 'FAST'});
+
+  const lazy = router.push('/lazy');
+  const slowAgain = router.push('/slow');
+  resolveComponent({default: () => {}});
+  expect((await lazy).type).toBe(NAVIGATION_RESULT.CANCELLED);
+  expect(router.currentRoute).toMatchObject({name: 'FAST'});
+
+  slowNext();
+  expect((await slowAgain).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(router.currentRoute).toMatchObject({name: 'SLOW'});
+});
+
+test('dynamic routes', async () => {
+  const router = new Router({
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+      },
+      {
+        path: '/admin',
+        name: 'ADMIN',
+      },
+      {
+        path: '*',
+        name: 'NOT_FOUND',
+      },
+    ],
+  });
+  expect(() => router.addRoute('UNKNOWN', {path: '/users'}))
+      .toThrow('no matching route found for name:UNKNOWN');
+  expect(() => router.addRoute({path: 4} as unknown as RouteConfigPrefab))
+      .toThrow('invalid route, Error: invalid route config path property');
+
+  await router.push('/reports');
+  expect(router.currentRoute).toMatchObject({name: 'NOT_FOUND'});
+
+  const removeReports = router.addRoute({path: '/reports', name: 'REPORTS'});
+  router.addRoute('ADMIN', {path: '/users', name: 'ADMIN_USERS'});
+  expect(router.hasRoute('REPORTS')).toBe(true);
+  expect(router.getRoutes().map((r) => r.name)).toEqual([
+    'HOME', 'ADMIN', 'ADMIN_USERS', 'REPORTS', 'NOT_FOUND',
+  ]);
+  await Promise.resolve();
+  expect(router.currentRoute).toMatchObject({name: 'REPORTS'});
+
+  expect((await router.push('/admin/users')).route)
+      .toMatchObject({name: 'ADMIN_USERS'});
+
+  removeReports();
+  expect(router.hasRoute('REPORTS')).toBe(false);
+  router.removeRoute('ADMIN_USERS');
+  expect(router.getRoutes().map((r) => r.name)).toEqual([
+    'HOME', 'ADMIN', 'NOT_FOUND',
+  ]);
+  await Promise.resolve();
+  expect(router.currentRoute).toMatchObject({name: 'NOT_FOUND'});
+  expect((await router.push('/admin')).route).toMatchObject({name: 'ADMIN'});
+  expect(() => router.removeRoute('REPORTS'))
+      .toThrow('no matching route found for name:REPORTS');
+});
+
+test('navigation settled', async () => {
+  let release: () => void = () => {};
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {
+        path: '/slow',
+        name: 'SLOW',
+        beforeEnter: (): Promise<void> => new Promise((r) => {
+          release = r;
+        }),
+      },
+      {path: '/private', beforeEnter: (): boolean => false},
+    ],
+  });
+  const onSettled = jest.fn();
+  const unregister = router.onNavigationSettled(onSettled);
+  await router.push('/');
+  expect(onSettled).toHaveBeenLastCalledWith(expect.objectContaining({
+    type: NAVIGATION_RESULT.SUCCESS,
+    route: expect.objectContaining({name: 'HOME'}),
+  }));
+
+  const slow = router.push('/slow');
+  await Promise.resolve();
+  expect(onSettled).toHaveBeenCalledTimes(1);
+  await router.push('/private');
+  expect(onSettled.mock.calls.map((c) => c[0].type)).toEqual([
+    NAVIGATION_RESULT.SUCCESS,
+    NAVIGATION_RESULT.CANCELLED,
+    NAVIGATION_RESULT.ABORTED,
+  ]);
+  release();
+  expect((await slow).type).toBe(NAVIGATION_RESULT.CANCELLED);
+
+  await router.push('/unknown');
+  expect(onSettled).toHaveBeenLastCalledWith(
+      expect.objectContaining({type: NAVIGATION_RESULT.FAILED}));
+
+  unregister();
+  const last = router.push('/slow');
+  await Promise.resolve();
+  release();
+  expect((await last).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(onSettled).toHaveBeenCalledTimes(4);
+});
+
+test('merged meta', async () => {
+  expect(() => new Router({
+    routes: [],
+    metaMerge: 'NONE' as META_MERGE,
+  })).toThrow('invalid meta merge, "NONE"');
+
+  const routes = (): RouteConfigPrefab[] => [
+    {
+      path: '/admin',
+      meta: {auth: {required: true}, layout: 'admin'},
+      children: [
+        {path: '', name: 'ADMIN'},
+        {
+          path: '/users',
+          name: 'USERS',
+          meta: {auth: {roles: ['editor']}, layout: 'wide'},
+        },
+      ],
+    },
+  ];
+  const router = new Router({mode: HISTORY_MODE.MEMORY, routes: routes()});
+  const guard = jest.fn((from, to, next) => next());
+  router.navigationGuard(guard);
+  router.start();
+
+  const result = await router.push('/admin/users');
+  expect(result.route).toMatchObject({
+    meta: {auth: {roles: ['editor']}, layout: 'wide'},
+    mergedMeta: {auth: {roles: ['editor']}, layout: 'wide'},
+  });
+  expect(guard.mock.calls[guard.mock.calls.length - 1][1]).toMatchObject({
+    mergedMeta: {layout: 'wide'},
+  });
+  expect((await router.push('/admin')).route).toMatchObject({
+    meta: {},
+    mergedMeta: {auth: {required: true}, layout: 'admin'},
+  });
+
+  const deep = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: routes(),
+    metaMerge: META_MERGE.DEEP,
+  });
+  expect(deep.resolve('/admin/users').route?.mergedMeta).toEqual({
+    auth: {required: true, roles: ['editor']},
+    layout: 'wide',
+  });
+});
+
+test('resolve', () => {
+  const router = new Router({
+    basename: 'app',
+    routes: [
+      {
+        path: '/users',
+        meta: {section: 'users'},
+        children: [
+          {
+            path: '/:id',
+            name: 'USER',
+          },
+        ],
+      },
+    ],
+  });
+  const listener = jest.fn();
+  router.onBeforeNavigation(listener);
+  router.onNavigationChanged(listener);
+  router.onError(listener);
+
+  const byName = router.resolve({
+    name: 'USER',
+    params: {id: '5'},
+    query: {tab: 'info'},
+  } as RawLocation);
+  expect(byName).toMatchObject({
+    resolved: true,
+    route: {
+      name: 'USER',
+      path: '/users/5',
+      fullPath: '/users/5?tab=info',
+      params: {id: 5},
+      query: {tab: 'info'},
+    },
+    href: '/app/users/5?tab=info',
+    error: null,
+  });
+  expect(byName.route && byName.route.matched.length).toBe(2);
+
+  expect(router.resolve('/app/users/7#bio')).toMatchObject({
+    resolved: true,
+    route: {name: 'USER', hash: 'bio'},
+    href: '/app/users/7#bio',
+  });
+  expect(router.resolve('/unknown')).toEqual({
+    resolved: false,
+    route: null,
+    href: null,
+    error: new Error('no matching route found for path:/unknown'),
+  });
+  expect(listener).not.toHaveBeenCalled();
+  expect(router.currentRoute).toBeNull();
+});
+
+test('route matching', () => {
+  const routes = (): RouteConfigPrefab[] => [
+    {
+      path: '*',
+      name: 'NOT_FOUND',
+    },
+    {
+      path: '/users',
+      children: [
+        {
+          path: '/:id',
+          name: 'USER',
+        },
+        {
+          path: '/new',
+          name: 'USER_NEW',
+        },
+      ],
+    },
+  ];
+  expect(() => new Router({
+    routes: routes(),
+    matching: 'FIRST' as ROUTE_MATCHING,
+  })).toThrow('invalid route matching, "FIRST"');
+
+  const ranked = new Router({routes: routes()});
+  expect(ranked.resolve('/users/new').route)
+      .toMatchObject({name: 'USER_NEW'});
+  expect(ranked.resolve('/users/5').route).toMatchObject({
+    name: 'USER',
+    params: {id: 5},
+  });
+  expect(ranked.resolve('/about').route).toMatchObject({name: 'NOT_FOUND'});
+
+  const ordered = new Router({
+    routes: routes(),
+    matching: ROUTE_MATCHING.ORDERED,
+  });
+  expect(ordered.resolve('/users/new').route)
+      .toMatchObject({name: 'NOT_FOUND'});
+});
+
+test('route alias', async () => {
+  const routes = (): RouteConfigPrefab[] => [
+    {
+      path: '/users',
+      alias: ['/u', '/members'],
+      children: [
+        {
+          path: '/:id',
+          alias: '/profile/:id',
+          name: 'USER',
+        },
+      ],
+    },
+    {
+      path: '/legacy/:id',
+      name: 'LEGACY',
+    },
+  ];
+  for (const matching of [ROUTE_MATCHING.RANKED, ROUTE_MATCHING.ORDERED]) {
+    const router = new Router({routes: routes(), matching});
+    const tests = [
+      ['/users/5', null],
+      ['/u/5', '/u/:id'],
+      ['/members/5', '/members/:id'],
+      ['/u/profile/5', '/u/profile/:id'],
+      ['/users/profile/5', '/users/profile/:id'],
+    ];
+    for (const t of tests) {
+      const route = router.resolve(t[0] as string).route;
+      expect(route).toMatchObject({
+        name: 'USER',
+        path: t[0],
+        alias: t[1],
+        params: {id: 5},
+      });
+      expect(route?.matched[0].path).toBe('/users');
+    }
+  }
+
+  // The URL is kept
+  const router = new Router({routes: routes()});
+  await router.push('/u/5');
+  expect(router.currentRoute).toMatchObject({
+    name: 'USER',
+    fullPath: '/u/5',
+    alias: '/u/:id',
+  });
+  expect(router.routeURL({name: 'USER', params: {id: 5}})).toBe('/users/5');
+});
+
+test('strict and sensitive matching', () => {
+  const routes = (): RouteConfigPrefab[] => [
+    {path: '/about', name: 'ABOUT'},
+    {
+      path: '/docs',
+      sensitive: true,
+      strict: false,
+      children: [
+        {path: '/API', name: 'API'},
+      ],
+    },
+    {path: '*', name: 'NOT_FOUND'},
+  ];
+  const tests = [
+    {path: '/about', loose: 'ABOUT', strict: 'ABOUT'},
+    {path: '/about/', loose: 'ABOUT', strict: 'NOT_FOUND'},
+    {path: '/ABOUT', loose: 'ABOUT', strict: 'NOT_FOUND'},
+    {path: '/docs/API/', loose: 'API', strict: 'API'},
+    {path: '/docs/api', loose: 'NOT_FOUND', strict: 'NOT_FOUND'},
+  ];
+  const loose = new Router({routes: routes()});
+  const strict = new Router({routes: routes(), strict: true, sensitive: true});
+  for (const t of tests) {
+    expect(loose.resolve(t.path).route?.name).toBe(t.loose);
+    expect(strict.resolve(t.path).route?.name).toBe(t.strict);
+  }
+});
+
+test('canonical path', async () => {
+  expect(() => new Router({
+    routes: [],
+    trailingSlash: 'NONE' as TRAILING_SLASH,
+  })).toThrow('invalid trailing slash, "NONE"');
+
+  window.history.replaceState(null, '', '/About/?q=Search#Top');
+  const length = window.history.length;
+  const router = new Router({
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/about', name: 'ABOUT'},
+      {path: '/users/:name/:tab?', name: 'USER'},
+      {path: '/users/new', name: 'NEW_USER'},
+    ],
+    trailingSlash: TRAILING_SLASH.REMOVE,
+    lowercase: true,
+  });
+  const history = window.history;
+
+  // The non-canonical history entry is replaced
+  router.start();
+  await new Promise((r) => setTimeout(r));
+  expect(router.currentRoute).toMatchObject({
+    name: 'ABOUT',
+    fullPath: '/about?q=Search#Top',
+  });
+  expect(history.length - length).toBe(0);
+  expect(window.location.pathname).toBe('/about');
+
+  // The canonical path of the pushed non-canonical path is pushed
+  await router.push('/');
+  expect(history.length - length).toBe(1);
+  expect(await router.push('/ABOUT/')).toMatchObject({
+    type: NAVIGATION_RESULT.REDIRECTED,
+    route: {
+      fullPath: '/about',
+      redirectedFrom: '/ABOUT/',
+      direction: NAVIGATION_DIRECTION.FORWARD,
+    },
+  });
+  expect(history.length - length).toBe(2);
+  expect(window.location.pathname).toBe('/about');
+  expect((await router.back()).route).toMatchObject({name: 'HOME'});
+  expect((await router.forward()).route).toMatchObject({name: 'ABOUT'});
+
+  // Only the static segments are lowercased
+  expect((await router.push('/Users/McDonald/Posts/')).route).toMatchObject({
+    name: 'USER',
+    fullPath: '/users/McDonald/Posts',
+    params: {name: 'McDonald', tab: 'Posts'},
+  });
+  expect((await router.push('/USERS/New')).route?.fullPath)
+      .toBe('/users/new');
+  expect((await router.push('/Users/new/Info')).route).toMatchObject({
+    name: 'USER',
+    fullPath: '/users/new/Info',
+  });
+  expect(history.length - length).toBe(5);
+
+  const trailing = new Router({
+    routes: [{path: '/about/', name: 'ABOUT'}],
+    trailingSlash: TRAILING_SLASH.ADD,
+    strict: true,
+  });
+  expect((await trailing.push('/about')).route?.fullPath).toBe('/about/');
+
+  // The basename is kept as it is
+  const base = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    basename: '/app',
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/about', name: 'ABOUT'},
+    ],
+    trailingSlash: TRAILING_SLASH.REMOVE,
+    lowercase: true,
+  });
+  expect(await base.push(base.routeURL({name: 'HOME'}))).toMatchObject({
+    type: NAVIGATION_RESULT.SUCCESS,
+    route: {name: 'HOME', fullPath: '/'},
+  });
+  expect(await base.push('/app/About/')).toMatchObject({
+    type: NAVIGATION_RESULT.REDIRECTED,
+    route: {name: 'ABOUT', fullPath: '/about'},
+  });
+});
+
+test('param types', () => {
+  const router = new Router({
+    routes: [
+      {
+        path: '/zip/:code',
+        name: 'ZIP',
+        paramTypes: {code: PARAM_TYPE.STRING},
+      },
+      {
+        path: '/orders/:id/:status',
+        name: 'ORDER',
+        paramTypes: {
+          id: PARAM_TYPE.INT,
+          status: ['open', 'closed'],
+        },
+      },
+      {
+        path: '/orders/:slug',
+        name: 'ORDER_SLUG',
+      },
+    ],
+  });
+  expect(router.resolve('/zip/01234').route)
+      .toMatchObject({params: {code: '01234'}});
+  expect(router.resolve('/zip/12345').route)
+      .toMatchObject({params: {code: '12345'}});
+  expect(router.resolve('/orders/5/open').route)
+      .toMatchObject({name: 'ORDER', params: {id: 5, status: 'open'}});
+  expect(router.resolve('/orders/abc/open').resolved).toBe(false);
+  expect(router.resolve('/orders/5/unknown').resolved).toBe(false);
+
+  expect(router.routeURL({
+    name: 'ORDER',
+    params: {id: 5, status: 'closed'},
+  } as unknown as RawLocation)).toBe('/orders/5/closed');
+  expect(() => router.routeURL({
+    name: 'ORDER',
+    params: {id: 'abc', status: 'closed'},
+  } as unknown as RawLocation)).toThrow('invalid route parameters');
+  expect(router.resolve({
+    name: 'ORDER',
+    params: {id: '7', status: 'open'},
+  } as unknown as RawLocation).route).toMatchObject({params: {id: 7}});
+});
+
+test('nested param types', () => {
+  const router = new Router({
+    routes: [
+      {
+        path: '/reports/:day',
+        paramTypes: {day: PARAM_TYPE.DATE},
+        children: [
+          {path: '', name: 'REPORT'},
+          {
+            path: '/:section',
+            name: 'REPORT_SECTION',
+            paramTypes: {section: ['sales', 'costs']},
+          },
+        ],
+      },
+    ],
+  });
+  const route = router.resolve('/reports/2020-01-31/sales').route;
+  expect(route?.name).toBe('REPORT_SECTION');
+  expect(route?.params.day).toBeInstanceOf(Date);
+  expect(route?.params.section).toBe('sales');
+  expect(route?.matched[0].params.day).toBeInstanceOf(Date);
+  expect(router.resolve('/reports/2020-13-45/sales').resolved).toBe(false);
+  expect(router.resolve('/reports/2020-01-31/other').resolved).toBe(false);
+
+  expect(router.routeURL({
+    name: 'REPORT_SECTION',
+    params: {day: new Date('2020-01-31T00:00:00.000Z'), section: 'costs'},
+  } as unknown as RawLocation)).toBe('/reports/2020-01-31/costs');
+  expect(() => router.routeURL({
+    name: 'REPORT',
+    params: {day: 'tomorrow'},
+  } as unknown as RawLocation)).toThrow('invalid route parameters');
+});
+
+test('typed params of the current route', async () => {
+  const point = {
+    parse: (value: string): {x: number; y: number} => {
+      const [x, y] = value.split(',').map(Number);
+      return {x, y};
+    },
+    serialize: (value: unknown): string => {
+      const p = value as {x: number; y: number};
+      return `${p.x},${p.y}`;
+    },
+  };
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {
+        path: '/events/:date/:at',
+        name: 'EVENTS',
+        paramTypes: {date: PARAM_TYPE.DATE, at: point},
+      },
+    ],
+  });
+  const changed = jest.fn();
+  router.onNavigationChanged(changed);
+  const result = await router.push('/events/2020-01-31/3,4');
+
+  const params = router.currentRoute?.params as {[k: string]: unknown};
+  expect(params.date).toBeInstanceOf(Date);
+  expect((params.date as Date).toISOString())
+      .toBe('2020-01-31T00:00:00.000Z');
+  expect(params.at).toEqual({x: 3, y: 4});
+  expect(router.currentRoute?.matched[0].params.date).toBeInstanceOf(Date);
+  expect(result.route?.params.date).toBeInstanceOf(Date);
+  expect(changed.mock.calls[0][1].params.date).toBeInstanceOf(Date);
+});
+
+test('query params', () => {
+  const routes = (): RouteConfigPrefab[] => [
+    {path: '/search', name: 'SEARCH'},
+  ];
+
+  const router = new Router({routes: routes()});
+  expect(router.resolve('/search?tag=a&tag=b%20c').route)
+      .toMatchObject({query: {tag: ['a', 'b c']}});
+  expect(router.resolve({
+    name: 'SEARCH',
+    query: {tag: ['a', 'b'], q: 'x&y'},
+  }).href).toBe('/search?tag=a&tag=b&q=x%26y');
+
+  const nested = new Router({routes: routes(), nestedQuery: true});
+  expect(nested.resolve('/search?filter[size]=10&ids[]=1&ids[]=2').route)
+      .toMatchObject({query: {filter: {size: '10'}, ids: ['1', '2']}});
+
+  const custom = new Router({
+    routes: routes(),
+    parseQuery: (search) => ({raw: search}),
+    stringifyQuery: (query) => `custom=${Object.keys(query).join(',')}`,
+  });
+  expect(custom.resolve('/search?a=b').route)
+      .toMatchObject({query: {raw: 'a=b'}});
+  expect(custom.routeURL({name: 'SEARCH', query: {a: '1', b: '2'}}))
+      .toBe('/search?custom=a,b');
+
+  expect(() => new Router({
+    routes: [],
+    parseQuery: 'invalid' as unknown as () => {},
+  })).toThrow('invalid parseQuery, expected function');
+});
+
+test('route loaders', async () => {
+  const pending: {[k: string]: (data: unknown) => void} = {};
+  const loader = (key: string) => jest.fn((route) => new Promise((resolve) => {
+    pending[key] = resolve;
+  }));
+  const loadUser = loader('user');
+  const loadPosts = loader('posts');
+  const router = new Router({
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+      },
+      {
+        path: '/users/:id',
+        load: loadUser,
+        children: [
+          {
+            path: '/posts',
+            name: 'POSTS',
+            load: loadPosts,
+          },
+        ],
+      },
+      {
+        path: '/broken',
+        load: (): Promise<unknown> => Promise.reject(new Error('not found')),
+      },
+      {
+        path: '/private',
+        beforeEnter: (): boolean => false,
+        load: loadUser,
+      },
+    ],
+  });
+  const onNavigationChanged = jest.fn();
+  const onError = jest.fn();
+  router.onNavigationChanged(onNavigationChanged);
+  router.onError(onError);
+  await router.push('/');
+
+  // Guards are resolved before the loaders
+  expect((await router.push('/private')).type)
+      .toBe(NAVIGATION_RESULT.ABORTED);
+  expect(loadUser).not.toHaveBeenCalled();
+
+  // Loaders run in parallel, before the navigation change
+  onNavigationChanged.mockClear();
+  const navigation = router.push('/users/5/posts');
+  await Promise.resolve();
+  expect(loadUser).toHaveBeenCalledWith(
+      expect.objectContaining({name: 'POSTS', params: {id: 5}}));
+  expect(loadPosts).toHaveBeenCalled();
+  expect(onNavigationChanged).not.toHaveBeenCalled();
+  pending.posts(['post']);
+  pending.user({name: 'John'});
+  expect((await navigation).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(onNavigationChanged.mock.calls[0][1].matched.map(
+      (r: {data: unknown}) => r.data)).toEqual([{name: 'John'}, ['post']]);
+  expect(router.currentRoute?.matched[1].data).toEqual(['post']);
+
+  // Rejected loader fails the navigation
+  const result = await router.push('/broken');
+  expect(result.type).toBe(NAVIGATION_RESULT.FAILED);
+  expect(result.error?.message).toBe('route loader error, Error: not found');
+  expect(onError).toHaveBeenCalledWith(result.error);
+  expect(router.currentRoute?.name).toBe('POSTS');
+});
+
+test('rejected route loader of the history pop', async () => {
+  let reject = false;
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {
+        path: '/a',
+        name: 'A',
+        load: (): Promise<unknown> => reject
+          ? Promise.reject(new Error('not found'))
+          : Promise.resolve(null),
+      },
+      {path: '/b', name: 'B'},
+    ],
+  });
+  await router.push('/');
+  await router.push('/a');
+  await router.push('/b');
+
+  reject = true;
+  expect(await router.back()).toMatchObject({
+    type: NAVIGATION_RESULT.FAILED,
+    error: new Error('route loader error, Error: not found'),
+  });
+  expect(router.currentRoute?.name).toBe('B');
+
+  // The history is reverted to the current route
+  reject = false;
+  expect((await router.back()).route).toMatchObject({name: 'A'});
+  expect((await router.forward()).route).toMatchObject({name: 'B'});
+});
+
+test('prefetch', async () => {
+  const View = (): void => {};
+  let loadComponent: (m: object) => void = () => {};
+  const component = new Promise((resolve) => {
+    loadComponent = resolve;
+  });
+  let fail = true;
+  const load = jest.fn((route) => fail
+    ? Promise.reject(new Error('offline'))
+    : Promise.resolve(`user ${route.params.id}`));
+  const router = new Router({
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+      },
+      {
+        path: '/lazy',
+        name: 'LAZY',
+        component: component as Promise<{default: object}>,
+      },
+      {
+        path: '/users/:id',
+        name: 'USER',
+        load,
+      },
+    ],
+  });
+  await router.push('/');
+
+  await expect(router.prefetch('/unknown')).rejects
+      .toThrow('no matching route found for path:/unknown');
+
+  // Lazy loaded component
+  const prefetch = router.prefetch({name: 'LAZY'});
+  loadComponent({default: View});
+  await prefetch;
+  expect((await router.push('/lazy')).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(router.currentRoute?.matched[0].component).toBe(View);
+
+  // The route data loaders are opt-in
+  await router.prefetch('/users/5');
+  expect(load).not.toHaveBeenCalled();
+
+  // Failed prefetch is not reused
+  await expect(router.prefetch('/users/5', {data: true})).rejects
+      .toThrow('offline');
+  fail = false;
+  await router.prefetch('/users/5', {data: true});
+  expect(load).toHaveBeenCalledTimes(2);
+  await router.prefetch('/users/5', {data: true});
+  expect(load).toHaveBeenCalledTimes(2);
+
+  // Prefetched data is used once by the navigation to the same URL
+  await router.push('/users/5');
+  expect(load).toHaveBeenCalledTimes(2);
+  expect(router.currentRoute?.matched[0].data).toBe('user 5');
+
+  // Prefetched data is kept by the other navigations
+  await router.prefetch('/users/6', {data: true});
+  await router.push('/users/7');
+  expect(load).toHaveBeenCalledTimes(4);
+  expect(router.currentRoute?.matched[0].data).toBe('user 7');
+  await router.push('/users/6');
+  expect(load).toHaveBeenCalledTimes(4);
+  expect(router.currentRoute?.matched[0].data).toBe('user 6');
+  await router.push('/users/7');
+  await router.push('/users/6');
+  expect(load).toHaveBeenCalledTimes(6);
+
+  // Prefetched data expires
+  const now = Date.now();
+  const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+  await router.prefetch('/users/5', {data: true});
+  dateNow.mockReturnValue(now + 30000);
+  await router.push('/users/5');
+  expect(load).toHaveBeenCalledTimes(8);
+  dateNow.mockRestore();
+
+  expect(() => new Router({routes: [], prefetchExpiry: -1}))
+      .toThrow('invalid prefetch expiry, "-1"');
+});
+
+test('lazy loaded component', async () => {
+  const View = (): void => {};
+  const Loading = (): void => {};
+  const failing = (count: number): jest.Mock => {
+    let calls = 0;
+    return jest.fn(() => ++calls <= count
+      ? Promise.reject(new Error('chunk failed'))
+      : Promise.resolve({default: View}));
+  };
+  const retried = failing(1);
+  const stuck = failing(1);
+  const deferred = failing(1);
+  let resolveSlow: (m: object) => void = () => {};
+  const slow = jest.fn(() => new Promise((resolve) => {
+    resolveSlow = resolve;
+  }));
+  let rejectPromised: (e: Error) => void = () => {};
+  const promised = new Promise<{default: object}>((resolve, reject) => {
+    rejectPromised = reject;
+  });
+  const router = new Router({
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/retried', component: {loader: retried}, retry: 1, retryDelay: 0},
+      {path: '/stuck', component: {loader: stuck}},
+      {path: '/timeout', component: {loader: (): Promise<never> =>
+        new Promise(() => {})}, loadingTimeout: 10},
+      {path: '/slow', component: {loader: slow}, loadingComponent: Loading},
+      {path: '/deferred', component: {loader: deferred},
+        errorComponent: Loading},
+      {path: '/promised', component: promised},
+    ],
+  });
+  const onError = jest.fn();
+  router.onError(onError);
+  await router.push('/');
+
+  // Retry with backoff
+  expect((await router.push('/retried')).type)
+      .toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(retried).toHaveBeenCalledTimes(2);
+  expect(router.currentRoute?.matched[0].component).toBe(View);
+
+  // Timeout
+  const timeout = await router.push('/timeout');
+  expect(timeout.error?.message).toBe('failed to load async error, '
+    + 'Error: timeout, the component has not been loaded within 10ms');
+
+  // Failed chunk is retried on the next navigation
+  expect((await router.push('/stuck')).type).toBe(NAVIGATION_RESULT.FAILED);
+  expect((await router.push('/stuck')).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(stuck).toHaveBeenCalledTimes(2);
+
+  // The navigation does not wait for the component with the loading state
+  expect((await router.push('/slow')).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  const pending = router.currentRoute?.matched[0].pending?.default;
+  expect(router.currentRoute?.matched[0].lazy.loadingComponent).toBe(Loading);
+  resolveSlow({default: View});
+  expect(await pending).toBe(View);
+  expect(router.currentRoute?.matched[0].component).toBe(View);
+  expect(router.currentRoute?.matched[0].pending).toBeUndefined();
+
+  // The failed component of the current route is retried
+  onError.mockClear();
+  await router.push('/deferred');
+  await expect(router.currentRoute?.matched[0].pending?.default)
+      .rejects.toThrow('chunk failed');
+  expect(onError.mock.calls[0][0].message)
+      .toBe('failed to load async error, Error: chunk failed');
+  expect((await router.push('/deferred')).type)
+      .toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(await router.currentRoute?.matched[0].pending?.default).toBe(View);
+  expect(deferred).toHaveBeenCalledTimes(2);
+
+  // The rejected promise is not loaded again
+  const rejected = router.push('/promised');
+  rejectPromised(new Error('chunk failed'));
+  expect((await rejected).type).toBe(NAVIGATION_RESULT.FAILED);
+  expect((await router.push('/promised')).error?.message)
+      .toBe('failed to load async error, Error: chunk failed');
+});
+
+test('named views', async () => {
+  class Main {
+    $destroy(): void {}
+  }
+  const Sidebar = (): void => {};
+  const Toolbar = (): void => {};
+  let resolveToolbar: (m: object) => void = () => {};
+  const toolbar = jest.fn(() => new Promise((resolve) => {
+    resolveToolbar = resolve;
+  }));
+  const router = new Router({
+    routes: [
+      {path: '/', name: 'HOME'},
+      {
+        path: '/users/:id',
+        name: 'USER',
+        component: Main,
+        components: {
+          sidebar: {loader: (): Promise<{default: object}> =>
+            Promise.resolve({default: Sidebar})},
+          toolbar: {loader: toolbar},
+        },
+        props: {default: true, sidebar: {collapsed: true}},
+        loadingComponent: Main,
+      },
+    ],
+  });
+  await router.push('/');
+
+  expect((await router.push('/users/5')).type)
+      .toBe(NAVIGATION_RESULT.SUCCESS);
+  const record = router.currentRoute?.matched[0];
+  expect(record?.component).toBe(Main);
+  expect(record?.components.default).toBe(Main);
+  expect(record?.outletProps).toEqual({
+    default: true,
+    sidebar: {collapsed: true},
+    toolbar: false,
+  });
+
+  // Each lazy loaded outlet is resolved separately
+  const pending = record?.pending as {[outlet: string]: Promise<object>};
+  expect(Object.keys(pending).sort()).toEqual(['sidebar', 'toolbar']);
+  expect(await pending.sidebar).toBe(Sidebar);
+  expect(router.currentRoute?.matched[0].components.sidebar).toBe(Sidebar);
+  expect(router.currentRoute?.matched[0].pending).toEqual({
+    toolbar: pending.toolbar,
+  });
+  resolveToolbar({default: Toolbar});
+  expect(await pending.toolbar).toBe(Toolbar);
+  expect(router.currentRoute?.matched[0].pending).toBeUndefined();
+
+  // Loaded outlets are reused
+  await router.push('/');
+  await router.push('/users/6');
+  expect(router.currentRoute?.matched[0].components).toEqual({
+    default: Main,
+    sidebar: Sidebar,
+    toolbar: Toolbar,
+  });
+  expect(toolbar).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,208 @@
+import {getScrollPosition, scrollToTarget} from '../src/scroll';
+import {Router} from '../src/router';
+import {HISTORY_MODE} from '../src/history';
+
+const scrollTo = jest.fn();
+window.scrollTo = scrollTo;
+
+const setScrollPosition = (x: number, y: number): void => {
+  Object.defineProperty(window, 'pageXOffset', {value: x, writable: true});
+  Object.defineProperty(window, 'pageYOffset', {value: y, writable: true});
+};
+
+const scrolledTo = (): object => {
+  const args = scrollTo.mock.calls[scrollTo.mock.calls.length - 1];
+  return args.length == 1
+    ? {x: args[0].left, y: args[0].top}
+    : {x: args[0], y: args[1]};
+};
+
+// The scroll behavior is resolved after the views are rendered
+const flush = (): Promise<void> => new Promise((r) => {
+  setTimeout(() => setTimeout(r));
+});
+
+beforeEach(() => {
+  scrollTo.mockClear();
+  setScrollPosition(0, 0);
+  document.body.innerHTML = '';
+});
+
+test('scrollToTarget', () => {
+  setScrollPosition(10, 20);
+  expect(getScrollPosition()).toEqual({x: 10, y: 20});
+
+  scrollToTarget({y: 100});
+  expect(scrolledTo()).toEqual({x: 10, y: 100});
+
+  document.body.innerHTML = '<div id="section 1"></div>';
+  const element = document.getElementById('section 1') as HTMLElement;
+  element.getBoundingClientRect = (): DOMRect => ({top: 300, left: 0} as DOMRect);
+  scrollToTarget({selector: '#section%201', offset: {y: 50}});
+  expect(scrolledTo()).toEqual({x: 10, y: 270});
+
+  scrollTo.mockClear();
+  scrollToTarget({selector: '#missing'});
+  scrollToTarget({selector: '[invalid'});
+  expect(scrollTo).not.toHaveBeenCalled();
+});
+
+test('scroll behavior', async () => {
+  const scrollBehavior = jest.fn((to, from, savedPosition) => {
+    if (savedPosition) {
+      return savedPosition;
+    }
+    if (to.hash) {
+      return {selector: `#${to.hash}`};
+    }
+    return to.meta.keep ? false : {x: 0, y: 0};
+  });
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/list', name: 'LIST'},
+      {path: '/detail', name: 'DETAIL', meta: {keep: 'true'}},
+    ],
+    scrollBehavior,
+  });
+  router.start();
+  await flush();
+  expect(scrollBehavior).toHaveBeenLastCalledWith(
+      expect.objectContaining({name: 'HOME'}), null, null);
+
+  await router.push('/list');
+  await flush();
+  expect(scrolledTo()).toEqual({x: 0, y: 0});
+
+  // Leave the list scrolled down
+  setScrollPosition(0, 400);
+  scrollTo.mockClear();
+  await router.push('/detail');
+  await flush();
+  expect(scrollTo).not.toHaveBeenCalled();
+
+  // Restore the saved position on back
+  setScrollPosition(0, 0);
+  await router.back();
+  await flush();
+  expect(scrollBehavior).toHaveBeenLastCalledWith(
+      expect.objectContaining({name: 'LIST'}),
+      expect.objectContaining({name: 'DETAIL'}),
+      {x: 0, y: 400});
+  expect(scrolledTo()).toEqual({x: 0, y: 400});
+
+  // Hash
+  document.body.innerHTML = '<div id="comments"></div>';
+  await router.push('/detail#comments');
+  await flush();
+  expect(scrollBehavior.mock.calls[scrollBehavior.mock.calls.length - 1][0])
+      .toMatchObject({hash: 'comments'});
+
+  // Scroll behavior error
+  const onError = jest.fn();
+  router.onError(onError);
+  scrollBehavior.mockImplementationOnce(() => {
+    throw new Error('failed');
+  });
+  await router.push('/');
+  await flush();
+  expect(onError.mock.calls[0][0].message)
+      .toBe('scroll behavior error, Error: failed');
+
+  expect(() => new Router({
+    routes: [],
+    scrollBehavior: 'invalid' as unknown as () => {},
+  })).toThrow('invalid scrollBehavior, expected function');
+});
+
+test('default scroll behavior', async () => {
+  const View = (): void => {};
+  let resolveView: (m: object) => void = () => {};
+  const router = new Router({
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/list', name: 'LIST'},
+      {
+        path: '/lazy',
+        name: 'LAZY',
+        component: {loader: (): Promise<{default: object}> =>
+          new Promise((resolve) => {
+            resolveView = resolve;
+          })},
+        loadingComponent: View,
+      },
+    ],
+  });
+  await router.push('/');
+  await router.push('/list');
+  setScrollPosition(0, 400);
+  await router.push('/');
+  await flush();
+  expect(scrollTo).not.toHaveBeenCalled();
+
+  // Restore the saved position on back
+  setScrollPosition(0, 0);
+  await router.back();
+  await flush();
+  expect(router.currentRoute?.name).toBe('LIST');
+  expect(scrolledTo()).toEqual({x: 0, y: 400});
+
+  // Hash
+  document.body.innerHTML = '<div id="comments"></div>';
+  const element = document.getElementById('comments') as HTMLElement;
+  element.getBoundingClientRect = (): DOMRect => ({top: 300, left: 0} as DOMRect);
+  await router.push('/#comments');
+  await flush();
+  expect(scrolledTo()).toEqual({x: 0, y: 300});
+
+  // Wait for the lazy loaded component
+  scrollTo.mockClear();
+  await router.push('/lazy#comments');
+  await flush();
+  expect(scrollTo).not.toHaveBeenCalled();
+  resolveView({default: View});
+  await flush();
+  expect(scrolledTo()).toEqual({x: 0, y: 300});
+
+  // The in-memory history does not scroll by default
+  scrollTo.mockClear();
+  const memory = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [{path: '/', name: 'HOME'}],
+  });
+  await memory.push('/#comments');
+  await flush();
+  expect(scrollTo).not.toHaveBeenCalled();
+});
+
+test('saved scroll positions limit', async () => {
+  const scrollBehavior = jest.fn((to, from, savedPosition) => savedPosition);
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {path: '/list', name: 'LIST'},
+    ],
+    scrollBehavior,
+  });
+  await router.push('/list');
+  setScrollPosition(0, 400);
+  for (let i = 0; i < 50; i++) {
+    await router.push(`/?page=${i}`);
+  }
+  await router.back();
+  await flush();
+  expect(scrollBehavior).toHaveBeenLastCalledWith(
+      expect.objectContaining({query: {page: '48'}}),
+      expect.objectContaining({query: {page: '49'}}),
+      {x: 0, y: 400});
+
+  // The least recently saved position is evicted
+  await router.go(-49);
+  await flush();
+  expect(scrollBehavior).toHaveBeenLastCalledWith(
+      expect.objectContaining({name: 'LIST'}),
+      expect.objectContaining({query: {page: '48'}}),
+      null);
+});
@@ -0,0 +1,94 @@
+import { Router } from '../src/router';
+import { HISTORY_MODE } from '../src/history';
+import { NAVIGATION_RESULT } from '../src/navigation';
+import { get } from 'svelte/store';
+
+test('route stores', async () => {
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME', meta: {title: 'Home'}},
+      {path: '/article/:id', name: 'ARTICLE', meta: {title: 'Article'}},
+    ],
+  });
+  expect(router.stores).toBe(router.stores);
+  const {route, params, query, meta} = router.stores;
+  expect(get(route)).toBeNull();
+  expect(get(params)).toEqual({});
+  expect(get(query)).toEqual({});
+  expect(get(meta)).toEqual({});
+
+  const onParams = jest.fn();
+  const unsubscribe = params.subscribe(onParams);
+  await router.push('/article/intro?tab=info');
+  expect(onParams).toHaveBeenLastCalledWith({id: 'intro'});
+  expect(get(route)).toEqual(
+      expect.objectContaining({name: 'ARTICLE'}));
+  expect(get(query)).toEqual({tab: 'info'});
+  expect(get(meta)).toEqual({title: 'Article'});
+
+  unsubscribe();
+  await router.push('/');
+  expect(onParams).toHaveBeenCalledTimes(2);
+  expect(get(params)).toEqual({});
+  expect(get(meta)).toEqual({title: 'Home'});
+});
+
+test('route stores per router', async () => {
+  const routes = (): {path: string; name: string}[] => [
+    {path: '/', name: 'HOME'},
+    {path: '/about', name: 'ABOUT'},
+  ];
+  const first = new Router({mode: HISTORY_MODE.MEMORY, routes: routes()});
+  const second = new Router({mode: HISTORY_MODE.MEMORY, routes: routes()});
+  const onFirst = jest.fn();
+  const onSecond = jest.fn();
+  first.stores.route.subscribe(onFirst);
+  second.stores.route.subscribe(onSecond);
+  await first.push('/about');
+  await second.push('/');
+  expect(onFirst).toHaveBeenLastCalledWith(
+      expect.objectContaining({name: 'ABOUT'}));
+  expect(onSecond).toHaveBeenLastCalledWith(
+      expect.objectContaining({name: 'HOME'}));
+  expect(onFirst).toHaveBeenCalledTimes(2);
+  expect(onSecond).toHaveBeenCalledTimes(2);
+});
+
+test('navigation state stores', async () => {
+  let release: () => void = () => {};
+  const router = new Router({
+    mode: HISTORY_MODE.MEMORY,
+    routes: [
+      {path: '/', name: 'HOME'},
+      {
+        path: '/slow',
+        name: 'SLOW',
+        beforeEnter: (): Promise<void> => new Promise((r) => {
+          release = r;
+        }),
+      },
+    ],
+  });
+  const {isNavigating, pendingRoute} = router.stores;
+  const onNavigating = jest.fn();
+  const onPending = jest.fn();
+  isNavigating.subscribe(onNavigating);
+  pendingRoute.subscribe(onPending);
+  await router.push('/');
+  expect(get(isNavigating)).toBe(false);
+  expect(get(pendingRoute)).toBeNull();
+
+  const slow = router.push('/slow');
+  await Promise.resolve();
+  expect(get(isNavigating)).toBe(true);
+  expect(get(pendingRoute)).toEqual(
+      expect.objectContaining({name: 'SLOW'}));
+  release();
+  expect((await slow).type).toBe(NAVIGATION_RESULT.SUCCESS);
+  expect(get(isNavigating)).toBe(false);
+  expect(get(pendingRoute)).toBeNull();
+  expect(onNavigating.mock.calls.map((c) => c[0])).toEqual(
+      [false, true, false, true, false]);
+  expect(onPending).toHaveBeenLastCalledWith(null);
+});
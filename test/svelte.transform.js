@@ -0,0 +1,20 @@
+/**
+ * Jest transform of the Svelte components and of the Svelte runtime
+ * modules, compiled into CommonJS modules.
+ */
+const {compile} = require('svelte/compiler');
+const babel = require('@babel/core');
+
+module.exports = {
+  process(source, filename) {
+    if (filename.endsWith('.svelte')) {
+      source = compile(source, {filename}).js.code;
+    }
+    return babel.transformSync(source, {
+      filename,
+      babelrc: false,
+      configFile: false,
+      presets: [['@babel/env', {targets: {node: 'current'}}]],
+    }).code;
+  },
+};
@@ -7,6 +7,8 @@ import {
   urlPrefix,
   parseURL,
   fullURL,
+  parseQuery,
+  stringifyQuery,
   historyFullURL,
   deepClone,
   isWholeNumber,
@@ -140,6 +142,39 @@ test('fullURL', () => {
   }
 });
 
+test('parseQuery', () => {
+  const tests: [string, boolean, object][] = [
+    ['', false, {}],
+    ['a', false, {a: ''}],
+    ['a=b%20c&d=e+f', false, {a: 'b c', d: 'e f'}],
+    ['a=b=c', false, {a: 'b=c'}],
+    ['a=%E0%A4%A', false, {a: '%E0%A4%A'}],
+    ['a=1&a=2&a=3', false, {a: ['1', '2', '3']}],
+    ['a[b]=c', false, {'a[b]': 'c'}],
+    ['a[b]=c&a[d]=e', true, {a: {b: 'c', d: 'e'}}],
+    ['a[]=b&a[]=c', true, {a: ['b', 'c']}],
+    ['a[b][c]=d', true, {a: {b: {c: 'd'}}}],
+  ];
+  for (const t of tests) {
+    expect(parseQuery(t[0], t[1])).toEqual(t[2]);
+  }
+});
+
+test('stringifyQuery', () => {
+  const tests: [object, string][] = [
+    [{}, ''],
+    [{a: 'b c', d: 'e&f'}, 'a=b%20c&d=e%26f'],
+    [{a: ['1', '2']}, 'a=1&a=2'],
+    [{a: null, b: undefined, c: ''}, 'c='],
+    [{a: {b: 'c'}}, 'a%5Bb%5D=c'],
+  ];
+  for (const t of tests) {
+    expect(stringifyQuery(t[0])).toBe(t[1]);
+  }
+  const query = {a: ['1', '2'], b: {c: 'd e'}};
+  expect(parseQuery(stringifyQuery(query), true)).toEqual(query);
+});
+
 test('historyFullURL', () => {
   const tests: [object, string][] = [
     [{pathname: '/a', search: '', hash: ''}, '/a'],
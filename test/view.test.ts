@@ -0,0 +1,129 @@
+import { tick } from 'svelte';
+import { get } from 'svelte/store';
+import createRouter, { ROUTER_MODE } from '../src/index';
+import View from '../component/view.svelte';
+import Label from './fixtures/label.svelte';
+import Lifecycle from './fixtures/lifecycle.svelte';
+
+const settle = async (): Promise<void> => {
+  await new Promise((r) => setTimeout(r));
+  await tick();
+};
+
+const texts = (): string[] => Array.from(
+    document.querySelectorAll('span'), (e) => e.textContent as string);
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+test('named root views', async () => {
+  const store = createRouter({
+    mode: ROUTER_MODE.MEMORY,
+    routes: [
+      {
+        path: '/',
+        name: 'HOME',
+        components: {default: Label, sidebar: Label, toolbar: Label},
+        props: {
+          default: {label: 'main'},
+          sidebar: {label: 'sidebar'},
+          toolbar: {label: 'toolbar'},
+        },
+      },
+    ],
+  });
+  const router = get(store);
+  const guard = jest.fn(async () => true);
+  router.navigationGuard(guard);
+  const onChanged = jest.fn();
+  router.onNavigationChanged(onChanged);
+
+  const views = ['sidebar', 'default', 'toolbar'].map((name) => new View({
+    target: document.body,
+    props: {name},
+  }));
+  await settle();
+  expect(guard).toHaveBeenCalledTimes(1);
+  expect(onChanged).toHaveBeenCalledTimes(1);
+  expect(texts()).toEqual(['sidebar', 'main', 'toolbar']);
+  views.forEach((view) => view.$destroy());
+});
+
+test('keep alive', async () => {
+  const log: string[] = [];
+  const route = (name: string): object => ({
+    path: `/${name.toLowerCase()}`,
+    name,
+    component: Lifecycle,
+    props: {label: name.toLowerCase(), log},
+  });
+  const store = createRouter({
+    mode: ROUTER_MODE.MEMORY,
+    initialURL: '/a',
+    routes: [route('A'), route('B'), route('C'), route('D')],
+  });
+  const router = get(store);
+  const view = new View({
+    target: document.body,
+    props: {keepAlive: {exclude: ['D'], max: 2}},
+  });
+  await settle();
+  expect(log.splice(0)).toEqual(['a mounted', 'a activated']);
+
+  // The kept alive view is hidden, not destroyed
+  await router.push('/b');
+  await settle();
+  expect(log.splice(0)).toEqual(['a deactivated', 'b mounted', 'b activated']);
+  expect(texts()).toEqual(['a', 'b']);
+  await router.push('/a');
+  await settle();
+  expect(log.splice(0)).toEqual(['b deactivated', 'a activated']);
+
+  // The least recently used view is evicted
+  await router.push('/c');
+  await settle();
+  expect(log.splice(0)).toEqual([
+    'a deactivated', 'b destroyed', 'c mounted', 'c activated',
+  ]);
+  expect(texts()).toEqual(['a', 'c']);
+
+  // The excluded view is not kept alive
+  await router.push('/d');
+  await settle();
+  expect(log.splice(0)).toEqual(['c deactivated', 'd mounted']);
+  await router.push('/c');
+  await settle();
+  expect(log.splice(0)).toEqual(['d destroyed', 'c activated']);
+  expect(texts()).toEqual(['a', 'c']);
+  view.$destroy();
+});
+
+test('keep alive included views', async () => {
+  const log: string[] = [];
+  const store = createRouter({
+    mode: ROUTER_MODE.MEMORY,
+    initialURL: '/a',
+    routes: ['a', 'b'].map((label) => ({
+      path: `/${label}`,
+      name: label.toUpperCase(),
+      component: Lifecycle,
+      props: {label, log},
+    })),
+  });
+  const router = get(store);
+  const view = new View({
+    target: document.body,
+    props: {keepAlive: {include: ['B']}},
+  });
+  await settle();
+  await router.push('/b');
+  await router.push('/a');
+  await router.push('/b');
+  await settle();
+  expect(log).toEqual([
+    'a mounted', 'a destroyed', 'b mounted', 'b activated',
+    'b deactivated', 'a mounted', 'a destroyed', 'b activated',
+  ]);
+  view.$destroy();
+});